@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { LNURL_HEADERS, buildPayParams, getLnurlOrigin, isLnurlUsername, lnurlError } from '@/lib/lnurl';
+
+interface RouteContext {
+  params: Promise<{ name: string }>;
+}
+
+// Lightning Address lookup: `name@domain` resolves to these pay parameters
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { name } = await params;
+
+  if (!isLnurlUsername(name)) {
+    return NextResponse.json(
+      lnurlError(`Unknown Lightning Address user "${name}"`),
+      { status: 404, headers: LNURL_HEADERS }
+    );
+  }
+
+  return NextResponse.json(buildPayParams(name, getLnurlOrigin(request)), { headers: LNURL_HEADERS });
+}
@@ -0,0 +1,169 @@
+'use client';
+
+import { Fragment, useState, useEffect } from 'react';
+import type { AuditEntry } from '@/lib/strike/audit';
+
+const METHOD_OPTIONS = ['', 'GET', 'POST', 'PATCH', 'DELETE'];
+
+// Operator view of the Strike proxy audit log
+export default function AuditLogPage() {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [filters, setFilters] = useState({ method: '', path: '', invoiceId: '', outcome: '', since: '' });
+  const [loading, setLoading] = useState(true);
+  const [unauthorized, setUnauthorized] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<number | null>(null);
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  useEffect(() => {
+    const fetchEntries = async () => {
+      setLoading(true);
+      try {
+        const params = new URLSearchParams();
+        for (const [key, value] of Object.entries(filters)) {
+          if (value) params.set(key, key === 'since' ? new Date(value).toISOString() : value);
+        }
+        const response = await fetch(`/api/admin/audit?${params}`);
+        if (response.status === 401) {
+          setUnauthorized(true);
+        } else if (!response.ok) {
+          throw new Error('Failed to load audit log');
+        } else {
+          const data = await response.json();
+          setEntries(data.entries);
+          setUnauthorized(false);
+          setError(null);
+        }
+      } catch {
+        setError('Failed to load audit log');
+      }
+      setLoading(false);
+    };
+
+    fetchEntries();
+  }, [filters, refreshKey]);
+
+  const updateFilter = (key: keyof typeof filters, value: string) => {
+    setFilters(current => ({ ...current, [key]: value }));
+  };
+
+  const inputClassName = 'p-2 rounded-lg border border-border bg-background text-foreground text-sm focus:ring-2 focus:ring-primary focus:border-transparent transition-theme';
+
+  if (unauthorized) {
+    return (
+      <main className="min-h-screen flex items-center justify-center px-4">
+        <div className="text-center space-y-3">
+          <p className="text-card-foreground">Operator login required to view the audit log.</p>
+          <a href="/admin/login" className="text-primary hover:text-primary/80 transition-colors font-semibold">
+            Sign In →
+          </a>
+        </div>
+      </main>
+    );
+  }
+
+  return (
+    <main className="min-h-screen px-4 py-12 bg-gradient-to-br from-background via-muted/30 to-background transition-theme">
+      <div className="max-w-7xl mx-auto">
+        <div className="flex items-center justify-between mb-8">
+          <div className="flex items-center space-x-2">
+            <div className="text-2xl">📜</div>
+            <div>
+              <h1 className="text-2xl font-bold text-foreground">Strike Audit Log</h1>
+              <p className="text-sm text-muted-foreground">Every call made through the Strike proxy, newest first</p>
+            </div>
+          </div>
+          <button
+            onClick={() => setRefreshKey(key => key + 1)}
+            className="px-4 py-2 rounded-full text-sm font-medium bg-muted text-muted-foreground hover:bg-accent hover:text-accent-foreground transition-all duration-300"
+          >
+            Refresh
+          </button>
+        </div>
+
+        {/* Filters */}
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-3 mb-6">
+          <select value={filters.method} onChange={(e) => updateFilter('method', e.target.value)} className={inputClassName}>
+            {METHOD_OPTIONS.map(method => (
+              <option key={method} value={method}>{method || 'All methods'}</option>
+            ))}
+          </select>
+          <input placeholder="Path contains" value={filters.path} onChange={(e) => updateFilter('path', e.target.value)} className={inputClassName} />
+          <input placeholder="Invoice ID" value={filters.invoiceId} onChange={(e) => updateFilter('invoiceId', e.target.value)} className={inputClassName} />
+          <select value={filters.outcome} onChange={(e) => updateFilter('outcome', e.target.value)} className={inputClassName}>
+            <option value="">All outcomes</option>
+            <option value="forwarded">Forwarded</option>
+            <option value="rejected">Rejected</option>
+          </select>
+          <input type="datetime-local" value={filters.since} onChange={(e) => updateFilter('since', e.target.value)} className={inputClassName} />
+        </div>
+
+        {error && <p className="text-sm text-red-500 mb-4">{error}</p>}
+
+        <div className="bg-card/95 backdrop-blur-sm border border-border rounded-xl overflow-x-auto transition-theme">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-muted-foreground border-b border-border">
+                <th className="p-3 font-medium">Time</th>
+                <th className="p-3 font-medium">Caller</th>
+                <th className="p-3 font-medium">Request</th>
+                <th className="p-3 font-medium">Status</th>
+                <th className="p-3 font-medium">Latency</th>
+                <th className="p-3 font-medium">Invoices</th>
+              </tr>
+            </thead>
+            <tbody>
+              {entries.map((entry, index) => (
+                <Fragment key={`${entry.timestamp}-${index}`}>
+                  <tr
+                    onClick={() => setExpanded(expanded === index ? null : index)}
+                    className="border-b border-border hover:bg-muted/50 cursor-pointer transition-colors"
+                  >
+                    <td className="p-3 whitespace-nowrap text-card-foreground">
+                      {new Date(entry.timestamp).toLocaleString('en-US')}
+                    </td>
+                    <td className="p-3 text-muted-foreground">
+                      <div className={entry.caller.role === 'operator' ? 'text-primary font-semibold' : ''}>{entry.caller.role}</div>
+                      <div className="text-xs font-mono">{entry.caller.ip}</div>
+                    </td>
+                    <td className="p-3 font-mono text-card-foreground">
+                      {entry.method} {entry.path}
+                    </td>
+                    <td className="p-3">
+                      <span className={entry.status < 400 ? 'text-green-500' : 'text-red-500'}>{entry.status}</span>
+                      {entry.outcome === 'rejected' && <span className="ml-2 text-xs text-muted-foreground">rejected</span>}
+                      {entry.repeated && <span className="ml-2 text-xs text-muted-foreground">+{entry.repeated} more</span>}
+                      {entry.cache && <span className="ml-2 text-xs text-muted-foreground">{entry.cache}</span>}
+                    </td>
+                    <td className="p-3 text-muted-foreground">{entry.latencyMs} ms</td>
+                    <td className="p-3 font-mono text-xs text-muted-foreground">
+                      {entry.invoiceIds.map(id => <div key={id}>{id}</div>)}
+                    </td>
+                  </tr>
+                  {expanded === index && (
+                    <tr className="border-b border-border bg-muted/30">
+                      <td colSpan={6} className="p-3">
+                        <div className="text-xs text-muted-foreground mb-1">Request body (redacted)</div>
+                        <pre className="text-xs font-mono text-card-foreground whitespace-pre-wrap">
+                          {entry.requestBody === null ? '(empty)' : JSON.stringify(entry.requestBody, null, 2)}
+                        </pre>
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
+              ))}
+            </tbody>
+          </table>
+          {!loading && entries.length === 0 && (
+            <div className="p-8 text-center text-muted-foreground">No matching calls</div>
+          )}
+          {loading && (
+            <div className="flex items-center justify-center p-8">
+              <div className="animate-spin w-6 h-6 border-2 border-primary border-t-transparent rounded-full"></div>
+            </div>
+          )}
+        </div>
+      </div>
+    </main>
+  );
+}
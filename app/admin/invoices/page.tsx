@@ -0,0 +1,240 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { strikeProxyClient } from '@/lib/strike/client';
+import type { SiteInvoice, SiteInvoiceTotals } from '@/lib/strike/invoices';
+
+const STATE_OPTIONS = ['', 'UNPAID', 'PENDING', 'PAID', 'CANCELLED'];
+
+const STATE_CLASSES: Record<string, string> = {
+  PAID: 'text-green-500',
+  PENDING: 'text-yellow-500',
+  UNPAID: 'text-muted-foreground',
+  CANCELLED: 'text-red-500',
+};
+
+// Date inputs are whole days in the operator's time zone
+const toQueryParams = (filters: { state: string; product: string; since: string; until: string }) => {
+  const params = new URLSearchParams();
+  if (filters.state) params.set('state', filters.state);
+  if (filters.product) params.set('product', filters.product);
+  if (filters.since) params.set('since', new Date(`${filters.since}T00:00:00`).toISOString());
+  if (filters.until) params.set('until', new Date(`${filters.until}T23:59:59.999`).toISOString());
+  return params;
+};
+
+const formatUsd = (value: number) =>
+  value.toLocaleString('en-US', { style: 'currency', currency: 'USD' });
+
+// Operator view of invoices created through the site
+export default function InvoiceDashboardPage() {
+  const [invoices, setInvoices] = useState<SiteInvoice[]>([]);
+  const [totals, setTotals] = useState<SiteInvoiceTotals | null>(null);
+  const [products, setProducts] = useState<string[]>([]);
+  const [filters, setFilters] = useState({ state: '', product: '', since: '', until: '' });
+  const [loading, setLoading] = useState(true);
+  const [unauthorized, setUnauthorized] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [cancelling, setCancelling] = useState<string | null>(null);
+  const [refreshKey, setRefreshKey] = useState(0);
+  const loadedRefreshKey = useRef(refreshKey);
+
+  useEffect(() => {
+    // Filter changes reuse the server's copy of the listing; refreshes reload it from Strike
+    const params = toQueryParams(filters);
+    if (refreshKey !== loadedRefreshKey.current) params.set('refresh', '1');
+    loadedRefreshKey.current = refreshKey;
+
+    const fetchInvoices = async () => {
+      setLoading(true);
+      try {
+        const response = await fetch(`/api/admin/invoices?${params}`);
+        if (response.status === 401) {
+          setUnauthorized(true);
+        } else if (!response.ok) {
+          throw new Error('Failed to load invoices');
+        } else {
+          const data = await response.json();
+          setInvoices(data.invoices);
+          setTotals(data.totals);
+          setProducts(data.products);
+          setUnauthorized(false);
+          setError(null);
+        }
+      } catch {
+        setError('Failed to load invoices');
+      }
+      setLoading(false);
+    };
+
+    fetchInvoices();
+  }, [filters, refreshKey]);
+
+  const updateFilter = (key: keyof typeof filters, value: string) => {
+    setFilters(current => ({ ...current, [key]: value }));
+  };
+
+  const cancelInvoice = async (invoiceId: string) => {
+    if (!window.confirm('Cancel this unpaid invoice? The client will no longer be able to pay it.')) return;
+
+    setCancelling(invoiceId);
+    const result = await strikeProxyClient.cancelInvoice(invoiceId);
+    if (result.ok) {
+      setRefreshKey(key => key + 1);
+    } else {
+      setError(`Could not cancel invoice: ${result.error.message}`);
+    }
+    setCancelling(null);
+  };
+
+  const inputClassName = 'p-2 rounded-lg border border-border bg-background text-foreground text-sm focus:ring-2 focus:ring-primary focus:border-transparent transition-theme';
+
+  if (unauthorized) {
+    return (
+      <main className="min-h-screen flex items-center justify-center px-4">
+        <div className="text-center space-y-3">
+          <p className="text-card-foreground">Operator login required to view invoices.</p>
+          <a href="/admin/login" className="text-primary hover:text-primary/80 transition-colors font-semibold">
+            Sign In →
+          </a>
+        </div>
+      </main>
+    );
+  }
+
+  return (
+    <main className="min-h-screen px-4 py-12 bg-gradient-to-br from-background via-muted/30 to-background transition-theme">
+      <div className="max-w-7xl mx-auto">
+        <div className="flex items-center justify-between mb-8">
+          <div className="flex items-center space-x-2">
+            <div className="text-2xl">🧾</div>
+            <div>
+              <h1 className="text-2xl font-bold text-foreground">Invoices</h1>
+              <p className="text-sm text-muted-foreground">Invoices created through the site, newest first</p>
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <a
+              href={`/api/admin/invoices?${toQueryParams(filters)}&format=csv`}
+              className="px-4 py-2 rounded-full text-sm font-medium bg-muted text-muted-foreground hover:bg-accent hover:text-accent-foreground transition-all duration-300"
+            >
+              Export CSV
+            </a>
+            <button
+              onClick={() => setRefreshKey(key => key + 1)}
+              className="px-4 py-2 rounded-full text-sm font-medium bg-muted text-muted-foreground hover:bg-accent hover:text-accent-foreground transition-all duration-300"
+            >
+              Refresh
+            </button>
+          </div>
+        </div>
+
+        {/* Totals */}
+        {totals && (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+            <div className="bg-card/95 backdrop-blur-sm border border-border rounded-xl p-4 transition-theme">
+              <div className="text-xs text-muted-foreground">Invoices</div>
+              <div className="text-2xl font-bold text-card-foreground">{totals.count}</div>
+            </div>
+            <div className="bg-card/95 backdrop-blur-sm border border-border rounded-xl p-4 transition-theme">
+              <div className="text-xs text-muted-foreground">Paid</div>
+              <div className="text-2xl font-bold text-green-500">{totals.paidCount}</div>
+            </div>
+            <div className="bg-card/95 backdrop-blur-sm border border-border rounded-xl p-4 transition-theme">
+              <div className="text-xs text-muted-foreground">Revenue (sats)</div>
+              <div className="text-2xl font-bold text-card-foreground">{totals.paidSats.toLocaleString('en-US')}</div>
+            </div>
+            <div className="bg-card/95 backdrop-blur-sm border border-border rounded-xl p-4 transition-theme">
+              <div className="text-xs text-muted-foreground">Revenue (USD)</div>
+              <div className="text-2xl font-bold text-card-foreground">{formatUsd(totals.paidUsd)}</div>
+            </div>
+          </div>
+        )}
+        {totals && totals.unsettledCount > 0 && (
+          <p className="text-xs text-muted-foreground mb-4">
+            {totals.unsettledCount} paid invoice{totals.unsettledCount === 1 ? ' has' : 's have'} no recorded quote and {totals.unsettledCount === 1 ? 'is' : 'are'} only partly counted in the totals.
+          </p>
+        )}
+
+        {/* Filters */}
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-3 mb-6">
+          <select value={filters.state} onChange={(e) => updateFilter('state', e.target.value)} className={inputClassName}>
+            {STATE_OPTIONS.map(state => (
+              <option key={state} value={state}>{state || 'All states'}</option>
+            ))}
+          </select>
+          <select value={filters.product} onChange={(e) => updateFilter('product', e.target.value)} className={inputClassName}>
+            <option value="">All products</option>
+            {products.map(product => (
+              <option key={product} value={product}>{product}</option>
+            ))}
+          </select>
+          <input type="date" aria-label="From" value={filters.since} onChange={(e) => updateFilter('since', e.target.value)} className={inputClassName} />
+          <input type="date" aria-label="To" value={filters.until} onChange={(e) => updateFilter('until', e.target.value)} className={inputClassName} />
+        </div>
+
+        {error && <p className="text-sm text-red-500 mb-4">{error}</p>}
+
+        <div className="bg-card/95 backdrop-blur-sm border border-border rounded-xl overflow-x-auto transition-theme">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-muted-foreground border-b border-border">
+                <th className="p-3 font-medium">Created</th>
+                <th className="p-3 font-medium">Product</th>
+                <th className="p-3 font-medium">State</th>
+                <th className="p-3 font-medium text-right">Sats</th>
+                <th className="p-3 font-medium text-right">USD</th>
+                <th className="p-3 font-medium">Invoice</th>
+                <th className="p-3 font-medium"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {invoices.map(invoice => (
+                <tr key={invoice.invoiceId} className="border-b border-border hover:bg-muted/50 transition-colors">
+                  <td className="p-3 whitespace-nowrap text-card-foreground">
+                    {new Date(invoice.created).toLocaleString('en-US')}
+                  </td>
+                  <td className="p-3 text-card-foreground">
+                    <div>{invoice.product}</div>
+                    <div className="text-xs text-muted-foreground">{invoice.description}</div>
+                  </td>
+                  <td className={`p-3 font-semibold ${STATE_CLASSES[invoice.state] ?? ''}`}>{invoice.state}</td>
+                  <td className="p-3 text-right font-mono text-card-foreground">
+                    {invoice.sats !== null ? invoice.sats.toLocaleString('en-US') : '—'}
+                  </td>
+                  <td className="p-3 text-right font-mono text-card-foreground">
+                    {invoice.usd !== null ? formatUsd(invoice.usd) : '—'}
+                  </td>
+                  <td className="p-3 font-mono text-xs">
+                    <a href={`/receipts/${invoice.invoiceId}`} className="text-primary hover:text-primary/80 transition-colors">
+                      {invoice.invoiceId}
+                    </a>
+                  </td>
+                  <td className="p-3 text-right">
+                    {invoice.state === 'UNPAID' && (
+                      <button
+                        onClick={() => cancelInvoice(invoice.invoiceId)}
+                        disabled={cancelling === invoice.invoiceId}
+                        className="px-3 py-1 rounded-full text-xs font-medium bg-muted text-muted-foreground hover:bg-red-500 hover:text-white transition-all duration-300 disabled:opacity-50"
+                      >
+                        {cancelling === invoice.invoiceId ? 'Cancelling...' : 'Cancel'}
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {!loading && invoices.length === 0 && (
+            <div className="p-8 text-center text-muted-foreground">No matching invoices</div>
+          )}
+          {loading && (
+            <div className="flex items-center justify-center p-8">
+              <div className="animate-spin w-6 h-6 border-2 border-primary border-t-transparent rounded-full"></div>
+            </div>
+          )}
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,142 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+
+interface SessionState {
+  authenticated: boolean;
+  expiresAt: number | null;
+  factors: { passphrase: boolean; totp: boolean };
+}
+
+// Operator login for the protected Strike endpoints
+export default function AdminLoginPage() {
+  const [session, setSession] = useState<SessionState | null>(null);
+  const [passphrase, setPassphrase] = useState('');
+  const [code, setCode] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchSession = async (): Promise<SessionState> => {
+    const response = await fetch('/api/admin/session');
+    return response.json();
+  };
+
+  useEffect(() => {
+    const loadInitialSession = async () => {
+      try {
+        setSession(await fetchSession());
+      } catch {
+        setError('Failed to load session');
+      }
+    };
+
+    loadInitialSession();
+  }, []);
+
+  const handleLogin = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/admin/session', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ passphrase, code }),
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        setError(data.error || 'Login failed');
+      } else {
+        setPassphrase('');
+        setCode('');
+        setSession(await fetchSession());
+      }
+    } catch {
+      setError('Login failed');
+    }
+    setSubmitting(false);
+  };
+
+  const handleLogout = async () => {
+    await fetch('/api/admin/session', { method: 'DELETE' });
+    setSession(await fetchSession());
+  };
+
+  return (
+    <main className="min-h-screen flex items-center justify-center px-4 bg-gradient-to-br from-background via-muted/30 to-background transition-theme">
+      <div className="w-full max-w-md bg-card/95 backdrop-blur-sm border border-border rounded-xl p-8 shadow-bitcoin transition-theme">
+        <div className="flex items-center space-x-2 mb-6">
+          <div className="text-2xl">🔐</div>
+          <div>
+            <h1 className="text-lg font-bold text-card-foreground">Operator Login</h1>
+            <p className="text-sm text-muted-foreground">Tahoe Bitcoin admin tools</p>
+          </div>
+        </div>
+
+        {!session ? (
+          <div className="flex items-center justify-center h-24">
+            <div className="animate-spin w-6 h-6 border-2 border-primary border-t-transparent rounded-full"></div>
+          </div>
+        ) : session.authenticated ? (
+          <div className="space-y-4 text-center">
+            <p className="text-card-foreground">You are signed in as an operator.</p>
+            {session.expiresAt && (
+              <p className="text-xs text-muted-foreground">
+                Session expires {new Date(session.expiresAt).toLocaleString('en-US')}
+              </p>
+            )}
+            <button
+              onClick={handleLogout}
+              className="px-6 py-2 rounded-full bg-muted text-muted-foreground hover:bg-accent hover:text-accent-foreground font-semibold transition-all duration-300"
+            >
+              Sign Out
+            </button>
+          </div>
+        ) : (
+          <form onSubmit={handleLogin} className="space-y-4">
+            {session.factors.passphrase && (
+              <div>
+                <label className="block text-sm font-medium text-card-foreground mb-2">Passphrase</label>
+                <input
+                  type="password"
+                  value={passphrase}
+                  onChange={(e) => setPassphrase(e.target.value)}
+                  autoComplete="current-password"
+                  className="w-full p-2 rounded-lg border border-border bg-background text-foreground focus:ring-2 focus:ring-primary focus:border-transparent transition-theme"
+                />
+              </div>
+            )}
+            {session.factors.totp && (
+              <div>
+                <label className="block text-sm font-medium text-card-foreground mb-2">Authenticator Code</label>
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  pattern="\d{6}"
+                  maxLength={6}
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  autoComplete="one-time-code"
+                  className="w-full p-2 rounded-lg border border-border bg-background text-foreground font-mono tracking-widest focus:ring-2 focus:ring-primary focus:border-transparent transition-theme"
+                />
+              </div>
+            )}
+            {!session.factors.passphrase && !session.factors.totp && (
+              <p className="text-sm text-muted-foreground">
+                Admin login is not configured. Set ADMIN_SESSION_SECRET and ADMIN_PASSPHRASE or ADMIN_TOTP_SECRET.
+              </p>
+            )}
+            {error && <p className="text-sm text-red-500">{error}</p>}
+            <button
+              type="submit"
+              disabled={submitting}
+              className="w-full bg-gradient-bitcoin text-primary-foreground px-6 py-2 rounded-full font-semibold hover:scale-105 transition-all duration-300 shadow-bitcoin disabled:opacity-50"
+            >
+              {submitting ? 'Signing In...' : 'Sign In'}
+            </button>
+          </form>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireOperator } from '@/lib/auth/session';
+import { queryAuditLog, type AuditEntry } from '@/lib/strike/audit';
+
+export async function GET(request: NextRequest) {
+  const rejection = requireOperator(request);
+  if (rejection) return rejection;
+
+  try {
+    const params = new URL(request.url).searchParams;
+    const status = Number(params.get('status'));
+    const limit = Number(params.get('limit'));
+    const outcome = params.get('outcome');
+
+    const entries = await queryAuditLog({
+      method: params.get('method')?.toUpperCase() || undefined,
+      path: params.get('path') || undefined,
+      invoiceId: params.get('invoiceId') || undefined,
+      status: status > 0 ? status : undefined,
+      outcome: outcome === 'forwarded' || outcome === 'rejected' ? outcome as AuditEntry['outcome'] : undefined,
+      since: params.get('since') || undefined,
+      until: params.get('until') || undefined,
+      limit: limit > 0 ? Math.min(limit, 1000) : undefined,
+    });
+
+    return NextResponse.json({ entries });
+
+  } catch (error) {
+    console.error('Audit Log Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to read audit log' },
+      { status: 500 }
+    );
+  }
+}
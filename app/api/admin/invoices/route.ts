@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireOperator } from '@/lib/auth/session';
+import { listSiteInvoices, toInvoiceCsv, totalSiteInvoices } from '@/lib/strike/invoices';
+import type { InvoiceState } from '@/lib/strike/types';
+
+const INVOICE_STATES: InvoiceState[] = ['UNPAID', 'PENDING', 'PAID', 'CANCELLED'];
+
+export async function GET(request: NextRequest) {
+  const rejection = requireOperator(request);
+  if (rejection) return rejection;
+
+  try {
+    const params = new URL(request.url).searchParams;
+    const state = params.get('state')?.toUpperCase() as InvoiceState | undefined;
+    const product = params.get('product');
+
+    const matching = await listSiteInvoices({
+      state: state && INVOICE_STATES.includes(state) ? state : undefined,
+      since: params.get('since') || undefined,
+      until: params.get('until') || undefined,
+    }, { refresh: params.get('refresh') === '1' });
+    const invoices = product ? matching.filter(invoice => invoice.product === product) : matching;
+
+    if (params.get('format') === 'csv') {
+      return new NextResponse(toInvoiceCsv(invoices), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="tahoe-invoices-${new Date().toISOString().slice(0, 10)}.csv"`,
+        },
+      });
+    }
+
+    return NextResponse.json({
+      invoices,
+      totals: totalSiteInvoices(invoices),
+      // Products seen under the other filters, for the product picker
+      products: [...new Set(matching.map(invoice => invoice.product))].sort(),
+    });
+
+  } catch (error) {
+    console.error('Invoice Dashboard Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load invoices' },
+      { status: 502 }
+    );
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  clearSessionCookie,
+  createSessionToken,
+  getSession,
+  isAdminLoginConfigured,
+  setSessionCookie,
+  verifyOperatorCredentials,
+} from '@/lib/auth/session';
+import { clearLoginFailures, getLoginDelay, getLoginLockout, recordLoginFailure } from '@/lib/auth/throttle';
+import { getClientIp } from '@/lib/rate-limit';
+
+export async function GET(request: NextRequest) {
+  const session = getSession(request);
+  return NextResponse.json({
+    authenticated: session.role === 'operator',
+    role: session.role,
+    expiresAt: session.role === 'operator' ? session.expiresAt : null,
+    factors: {
+      passphrase: Boolean(process.env.ADMIN_PASSPHRASE),
+      totp: Boolean(process.env.ADMIN_TOTP_SECRET),
+    },
+  });
+}
+
+export async function POST(request: NextRequest) {
+  if (!isAdminLoginConfigured()) {
+    return NextResponse.json(
+      { error: 'Admin login not configured' },
+      { status: 500 }
+    );
+  }
+
+  const ip = getClientIp(request);
+  const lockoutSeconds = getLoginLockout(ip);
+  if (lockoutSeconds > 0) {
+    return NextResponse.json(
+      { error: 'Too many failed login attempts, try again later' },
+      { status: 429, headers: { 'Retry-After': String(lockoutSeconds) } }
+    );
+  }
+
+  let credentials: { passphrase?: string; code?: string };
+  try {
+    const body = await request.json();
+    credentials = {
+      passphrase: typeof body?.passphrase === 'string' ? body.passphrase : undefined,
+      code: typeof body?.code === 'string' ? body.code.trim() : undefined,
+    };
+  } catch {
+    return NextResponse.json(
+      { error: 'Invalid login request' },
+      { status: 400 }
+    );
+  }
+
+  const delayMs = getLoginDelay();
+  if (delayMs > 0) await new Promise(resolve => setTimeout(resolve, delayMs));
+
+  if (!verifyOperatorCredentials(credentials)) {
+    await recordLoginFailure(ip);
+    return NextResponse.json(
+      { error: 'Invalid credentials' },
+      { status: 401 }
+    );
+  }
+
+  clearLoginFailures(ip);
+  const response = NextResponse.json({ authenticated: true, role: 'operator' });
+  setSessionCookie(response, createSessionToken('operator'));
+  return response;
+}
+
+export async function DELETE() {
+  const response = NextResponse.json({ authenticated: false, role: 'public' });
+  clearSessionCookie(response);
+  return response;
+}
@@ -0,0 +1,70 @@
+import { randomUUID } from 'crypto';
+import { NextRequest } from 'next/server';
+import { getSession } from '@/lib/auth/session';
+import { createRateLimiter, getClientIp, rateLimitHeaders } from '@/lib/rate-limit';
+import { getConsultationPackage } from '@/lib/services';
+import { extractInvoiceIds, recordAuditEntry, redactBody } from '@/lib/strike/audit';
+import { IDEMPOTENCY_HEADER, isValidIdempotencyKey } from '@/lib/strike/idempotency';
+import { recordSiteInvoice } from '@/lib/strike/invoices';
+import { STRIKE_RATE_LIMITS } from '@/lib/strike/policy';
+import { consultationDescription } from '@/lib/strike/products';
+import { forwardToStrike, strikeErrorResponse } from '@/lib/strike/proxy';
+import type { CreateInvoiceRequest } from '@/lib/strike/types';
+import { isInvoice } from '@/lib/strike/validate';
+
+// Each checkout creates a Strike invoice, so it shares the proxy's write limit
+const rateLimiter = createRateLimiter(STRIKE_RATE_LIMITS.write);
+
+// Consultation checkout: `{ packageId }` in, the Strike invoice out. The price
+// and description come from the catalog in `lib/services.ts`, never the browser.
+export async function POST(request: NextRequest) {
+  const startedAt = Date.now();
+
+  let packageId: unknown;
+  try {
+    packageId = (await request.json())?.packageId;
+  } catch {
+    return strikeErrorResponse('INVALID_REQUEST');
+  }
+
+  const consultation = typeof packageId === 'string' ? getConsultationPackage(packageId) : null;
+  const idempotencyKey = request.headers.get(IDEMPOTENCY_HEADER);
+  if (!consultation || (idempotencyKey !== null && !isValidIdempotencyKey(idempotencyKey))) {
+    return strikeErrorResponse('INVALID_REQUEST');
+  }
+
+  const limit = rateLimiter.take(getClientIp(request));
+  if (!limit.allowed) {
+    return strikeErrorResponse('RATE_LIMITED', { headers: rateLimitHeaders(limit) });
+  }
+
+  // The correlation ID follows the idempotency key, so a retried checkout is an identical request
+  const invoice: CreateInvoiceRequest = {
+    correlationId: idempotencyKey ?? randomUUID(),
+    description: consultationDescription(consultation.name, consultation.duration),
+    amount: { currency: 'USD', amount: consultation.priceUsd.toFixed(2) },
+  };
+  const body = JSON.stringify(invoice);
+  const response = await forwardToStrike(request, 'POST', ['invoices'], { body, search: '' });
+
+  const responseJson = await response.clone().json().catch(() => null);
+  if (isInvoice(responseJson)) await recordSiteInvoice(responseJson);
+
+  await recordAuditEntry({
+    timestamp: new Date(startedAt).toISOString(),
+    caller: {
+      role: getSession(request).role,
+      ip: getClientIp(request),
+    },
+    method: 'POST',
+    path: 'invoices',
+    outcome: 'forwarded',
+    status: response.status,
+    cache: null,
+    latencyMs: Date.now() - startedAt,
+    invoiceIds: extractInvoiceIds(responseJson),
+    requestBody: redactBody(body),
+  });
+
+  return response;
+}
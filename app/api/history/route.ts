@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDailyPrices, getHistoryMaxDays, getPriceHistory } from '@/lib/price/history';
+import { PRICE_CURRENCIES, isPriceCurrency } from '@/lib/price/currencies';
+
+const MAX_DATES = 50;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Stored BTC prices as `{ currency, resolution, prices: [[timestamp, price], ...] }`.
+// `?days=30` returns a trailing range; `?dates=2018-11-01,2019-11-01` returns
+// the daily price for each listed day that has one.
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  const currency = (searchParams.get('currency') || 'USD').toUpperCase();
+
+  if (!isPriceCurrency(currency)) {
+    return NextResponse.json(
+      { error: 'Unsupported currency', supported: PRICE_CURRENCIES },
+      { status: 400 }
+    );
+  }
+
+  const datesParam = searchParams.get('dates');
+  const dates = datesParam ? datesParam.split(',') : null;
+  const days = Number(searchParams.get('days') || 7);
+  const maxDays = getHistoryMaxDays(currency);
+
+  if (dates && (dates.length > MAX_DATES || !dates.every(date => DATE_PATTERN.test(date)))) {
+    return NextResponse.json(
+      { error: `dates must be up to ${MAX_DATES} comma-separated YYYY-MM-DD days` },
+      { status: 400 }
+    );
+  }
+  if (!dates && !(Number.isInteger(days) && days >= 1 && days <= maxDays)) {
+    return NextResponse.json(
+      { error: `days must be a whole number from 1 to ${maxDays} for ${currency}` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const history = dates
+      ? { resolution: 'daily' as const, prices: await getDailyPrices(currency, dates) }
+      : await getPriceHistory(currency, days);
+
+    if (!dates && history.prices.length === 0) {
+      return NextResponse.json(
+        { error: 'No price history is stored for this range yet' },
+        { status: 503 }
+      );
+    }
+
+    return NextResponse.json({ currency, ...history }, {
+      headers: { 'Cache-Control': 'public, max-age=300, stale-while-revalidate=3600' },
+    });
+
+  } catch (error) {
+    console.error('Price History Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load price history' },
+      { status: 500 }
+    );
+  }
+}
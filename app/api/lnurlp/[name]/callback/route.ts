@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  LNURL_HEADERS,
+  buildLnurlMetadata,
+  getCommentAllowed,
+  getLnurlOrigin,
+  getSendableRangeMsat,
+  hashLnurlMetadata,
+  isLnurlUsername,
+  lnurlError,
+  recordLnurlPayment,
+} from '@/lib/lnurl';
+import { STRIKE_RATE_LIMITS } from '@/lib/strike/policy';
+import { getStrikeServerClient } from '@/lib/strike/server';
+import { createRateLimiter, getClientIp, rateLimitHeaders } from '@/lib/rate-limit';
+
+interface RouteContext {
+  params: Promise<{ name: string }>;
+}
+
+// Each callback mints a Strike invoice, so it shares the proxy's write limit
+const rateLimiter = createRateLimiter(STRIKE_RATE_LIMITS.write);
+
+const INVOICE_EXPIRY_SECONDS = 600;
+
+const errorResponse = (reason: string, status: number, headers?: HeadersInit) =>
+  NextResponse.json(lnurlError(reason), { status, headers: { ...LNURL_HEADERS, ...headers } });
+
+// LNURL-pay callback: `?amount=<msat>[&comment=...]` returns a BOLT11 invoice
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { name } = await params;
+  if (!isLnurlUsername(name)) {
+    return errorResponse(`Unknown Lightning Address user "${name}"`, 404);
+  }
+
+  const { searchParams } = request.nextUrl;
+  const amountMsat = Number(searchParams.get('amount'));
+  const { min, max } = getSendableRangeMsat();
+
+  if (!Number.isSafeInteger(amountMsat) || amountMsat < min || amountMsat > max) {
+    return errorResponse(`Amount must be between ${min} and ${max} millisatoshis`, 400);
+  }
+  if (amountMsat % 1000 !== 0) {
+    return errorResponse('Amount must be a whole number of satoshis', 400);
+  }
+
+  const comment = searchParams.get('comment')?.trim() || null;
+  const commentAllowed = getCommentAllowed();
+  if (comment && comment.length > commentAllowed) {
+    return errorResponse(
+      commentAllowed > 0 ? `Comment must be at most ${commentAllowed} characters` : 'Comments are not accepted',
+      400
+    );
+  }
+
+  const limit = rateLimiter.take(getClientIp(request));
+  if (!limit.allowed) {
+    return errorResponse('Too many requests', 429, rateLimitHeaders(limit));
+  }
+
+  try {
+    const metadata = buildLnurlMetadata(name, getLnurlOrigin(request));
+    const result = await getStrikeServerClient().createReceiveRequest({
+      bolt11: {
+        amount: { currency: 'BTC', amount: (amountMsat / 100_000_000_000).toFixed(8) },
+        descriptionHash: hashLnurlMetadata(metadata),
+        expiryInSeconds: INVOICE_EXPIRY_SECONDS,
+      },
+    });
+
+    if (!result.ok) {
+      console.error('LNURL Callback Error:', result.error.code, result.error.body);
+      return errorResponse(result.error.message, result.error.status && result.error.status < 500 ? 400 : 502);
+    }
+
+    await recordLnurlPayment({
+      receiveRequestId: result.data.receiveRequestId,
+      username: name.toLowerCase(),
+      amountMsat,
+      comment,
+      createdAt: new Date().toISOString(),
+    });
+
+    return NextResponse.json(
+      {
+        pr: result.data.bolt11.invoice,
+        routes: [],
+        successAction: { tag: 'message', message: 'Thanks for supporting Tahoe Bitcoin!' },
+      },
+      { headers: LNURL_HEADERS }
+    );
+
+  } catch (error) {
+    console.error('LNURL Callback Error:', error);
+    return errorResponse('Failed to create invoice', 500);
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAggregatedPrice } from '@/lib/price/feed';
+import { PRICE_CURRENCIES, isPriceCurrency } from '@/lib/price/currencies';
+
+export async function GET(request: NextRequest) {
+  const currency = (request.nextUrl.searchParams.get('currency') || 'USD').toUpperCase();
+
+  if (!isPriceCurrency(currency)) {
+    return NextResponse.json(
+      { error: 'Unsupported currency', supported: PRICE_CURRENCIES },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const price = await getAggregatedPrice(currency);
+
+    if (!price) {
+      return NextResponse.json(
+        { error: 'No price source is currently available' },
+        { status: 503 }
+      );
+    }
+
+    return NextResponse.json(price, {
+      headers: { 'Cache-Control': 'public, max-age=15, stale-while-revalidate=45' },
+    });
+
+  } catch (error) {
+    console.error('Price Feed Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load price' },
+      { status: 500 }
+    );
+  }
+}
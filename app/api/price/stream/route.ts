@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { subscribeToPriceTicks } from '@/lib/price/stream';
+import { PRICE_CURRENCIES, isPriceCurrency } from '@/lib/price/currencies';
+
+export const dynamic = 'force-dynamic';
+
+// How long browsers wait before reconnecting after the stream drops
+const RETRY_MS = 5_000;
+
+// Server-sent events: a `price` event with the aggregated price on every
+// tick, or `unavailable` while no source has a fresh price
+export async function GET(request: NextRequest) {
+  const currency = (request.nextUrl.searchParams.get('currency') || 'USD').toUpperCase();
+
+  if (!isPriceCurrency(currency)) {
+    return NextResponse.json(
+      { error: 'Unsupported currency', supported: PRICE_CURRENCIES },
+      { status: 400 }
+    );
+  }
+
+  const encoder = new TextEncoder();
+  let unsubscribe = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const close = () => {
+        unsubscribe();
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      };
+
+      const send = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          close();
+        }
+      };
+
+      send(`retry: ${RETRY_MS}\n\n`);
+      unsubscribe = subscribeToPriceTicks(currency, price => {
+        send(price
+          ? `event: price\ndata: ${JSON.stringify(price)}\n\n`
+          : 'event: unavailable\ndata: {}\n\n');
+      });
+      request.signal.addEventListener('abort', close);
+    },
+    cancel() {
+      unsubscribe();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { SERVICES, priceService } from '@/lib/services';
+import { getAggregatedPrice } from '@/lib/price/feed';
+
+export async function GET() {
+  try {
+    const price = await getAggregatedPrice('USD');
+
+    if (!price) {
+      return NextResponse.json(
+        { error: 'No price source is currently available' },
+        { status: 503 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        rate: { usdPerBtc: price.price, asOf: price.asOf },
+        prices: SERVICES.map(service => priceService(service, price.price)),
+      },
+      { headers: { 'Cache-Control': 'public, max-age=15, stale-while-revalidate=45' } }
+    );
+
+  } catch (error) {
+    console.error('Service Pricing Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to price services' },
+      { status: 502 }
+    );
+  }
+}
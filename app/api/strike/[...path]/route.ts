@@ -1,215 +1,140 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextRequest } from 'next/server';
+import {
+  STRIKE_RATE_LIMITS,
+  findStrikePolicy,
+  type StrikeMethod,
+  type StrikeRateClass,
+  type StrikeRoutePolicy,
+} from '@/lib/strike/policy';
+import { getSession, hasRole } from '@/lib/auth/session';
+import { createRateLimiter, getClientIp, rateLimitHeaders } from '@/lib/rate-limit';
+import { extractInvoiceIds, recordAuditEntry, redactBody } from '@/lib/strike/audit';
+import { isSiteInvoice, recordSiteInvoice } from '@/lib/strike/invoices';
+import { forwardToStrike, strikeErrorResponse } from '@/lib/strike/proxy';
+import { recordQuote } from '@/lib/strike/settlement';
+import { isInvoice, isQuote } from '@/lib/strike/validate';
+
+interface RouteContext {
+  params: Promise<{ path: string[] }>;
+}
 
-const STRIKE_API_BASE = 'https://api.strike.me/v1';
+const rateLimiters: Record<StrikeRateClass, ReturnType<typeof createRateLimiter>> = {
+  read: createRateLimiter(STRIKE_RATE_LIMITS.read),
+  write: createRateLimiter(STRIKE_RATE_LIMITS.write),
+};
 
-export async function GET(
-  request: NextRequest,
-  { params }: { params: Promise<{ path: string[] }> }
-) {
-  try {
-    const apiKey = process.env.STRIKE_API_KEY;
-    
-    if (!apiKey) {
-      return NextResponse.json(
-        { error: 'Strike API key not configured' },
-        { status: 500 }
-      );
-    }
+// Rejects operator-only endpoints for callers without an operator session
+const authorize = (request: NextRequest, policy: StrikeRoutePolicy) => {
+  if (hasRole(getSession(request), policy.role)) return null;
+  return strikeErrorResponse('LOGIN_REQUIRED');
+};
 
-    const resolvedParams = await params;
-    const path = resolvedParams.path.join('/');
-    const url = new URL(request.url);
-    const searchParams = url.searchParams.toString();
-    const strikeUrl = `${STRIKE_API_BASE}/${path}${searchParams ? `?${searchParams}` : ''}`;
-
-    const response = await fetch(strikeUrl, {
-      method: 'GET',
-      headers: {
-        'Authorization': `Bearer ${apiKey}`,
-        'Content-Type': 'application/json',
-      },
-    });
+// Spends a token from the caller's bucket for the endpoint's rate class
+const rateLimit = (request: NextRequest, policy: StrikeRoutePolicy) => {
+  const result = rateLimiters[policy.rateClass].take(getClientIp(request));
+  if (result.allowed) return null;
 
-    if (!response.ok) {
-      const errorData = await response.text();
-      return NextResponse.json(
-        { 
-          error: 'Strike API request failed',
-          status: response.status,
-          message: errorData 
-        },
-        { status: response.status }
-      );
-    }
+  return strikeErrorResponse('RATE_LIMITED', { headers: rateLimitHeaders(result) });
+};
 
-    const data = await response.json();
-    return NextResponse.json(data);
+// Refuses request bodies the endpoint's policy doesn't accept from callers
+const checkBody = (policy: StrikeRoutePolicy, requestBody: string) => {
+  if (!policy.acceptsBody) return null;
 
-  } catch (error) {
-    console.error('Strike API Error:', error);
-    return NextResponse.json(
-      { error: 'Failed to communicate with Strike API' },
-      { status: 500 }
-    );
+  let body: unknown = null;
+  try {
+    body = JSON.parse(requestBody);
+  } catch {
+    // Not JSON, so nothing the policy could accept
   }
+  return policy.acceptsBody(body) ? null : strikeErrorResponse('INVALID_REQUEST');
+};
+
+// Visitors only reach invoices the site created; operators reach every invoice
+const checkInvoice = async (request: NextRequest, invoiceId: string | undefined) => {
+  if (!invoiceId || hasRole(getSession(request), 'operator') || await isSiteInvoice(invoiceId)) return null;
+  return strikeErrorResponse('NOT_FOUND');
+};
+
+interface ProxyCallResult {
+  response: Response;
+  forwarded: boolean;
+  policy: StrikeRoutePolicy | null;
+  params: Record<string, string>;
 }
 
-export async function POST(
+const proxyCall = async (
   request: NextRequest,
-  { params }: { params: Promise<{ path: string[] }> }
-) {
-  try {
-    const apiKey = process.env.STRIKE_API_KEY;
-    
-    if (!apiKey) {
-      return NextResponse.json(
-        { error: 'Strike API key not configured' },
-        { status: 500 }
-      );
-    }
-
-    const resolvedParams = await params;
-    const path = resolvedParams.path.join('/');
-    const body = await request.json();
-    const strikeUrl = `${STRIKE_API_BASE}/${path}`;
-
-    const response = await fetch(strikeUrl, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${apiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(body),
-    });
+  method: StrikeMethod,
+  path: string[],
+  requestBody: string
+): Promise<ProxyCallResult> => {
+  // Anything not on the allowlist is refused before touching Strike
+  const match = findStrikePolicy(method, path);
+  if (!match) {
+    return { response: strikeErrorResponse('ENDPOINT_NOT_ALLOWED'), forwarded: false, policy: null, params: {} };
+  }
 
-    if (!response.ok) {
-      const errorData = await response.text();
-      return NextResponse.json(
-        { 
-          error: 'Strike API request failed',
-          status: response.status,
-          message: errorData 
-        },
-        { status: response.status }
-      );
-    }
+  const rejection = authorize(request, match.policy)
+    ?? checkBody(match.policy, requestBody)
+    ?? rateLimit(request, match.policy)
+    ?? await checkInvoice(request, match.params.invoiceId);
+  if (rejection) return { response: rejection, forwarded: false, policy: match.policy, params: match.params };
 
-    const data = await response.json();
-    return NextResponse.json(data);
+  const response = await forwardToStrike(request, method, path, { cache: match.policy.cache });
+  return { response, forwarded: true, policy: match.policy, params: match.params };
+};
 
-  } catch (error) {
-    console.error('Strike API Error:', error);
-    return NextResponse.json(
-      { error: 'Failed to communicate with Strike API' },
-      { status: 500 }
-    );
+const readResponseJson = async (response: Response) => {
+  if (!response.headers.get('content-type')?.includes('application/json')) return null;
+  try {
+    return await response.clone().json();
+  } catch {
+    return null;
   }
-}
+};
 
-export async function PATCH(
-  request: NextRequest,
-  { params }: { params: Promise<{ path: string[] }> }
-) {
-  try {
-    const apiKey = process.env.STRIKE_API_KEY;
-    
-    if (!apiKey) {
-      return NextResponse.json(
-        { error: 'Strike API key not configured' },
-        { status: 500 }
-      );
-    }
+const createHandler = (method: StrikeMethod) =>
+  async (request: NextRequest, { params }: RouteContext) => {
+    const startedAt = Date.now();
+    const { path } = await params;
+    const requestBody = method === 'GET' ? '' : await request.clone().text();
 
-    const resolvedParams = await params;
-    const path = resolvedParams.path.join('/');
-    const body = await request.json();
-    const strikeUrl = `${STRIKE_API_BASE}/${path}`;
+    const { response, forwarded, policy, params: pathParams } = await proxyCall(request, method, path, requestBody);
 
-    const response = await fetch(strikeUrl, {
-      method: 'PATCH',
-      headers: {
-        'Authorization': `Bearer ${apiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(body),
-    });
+    const responseJson = await readResponseJson(response);
+    const invoiceIds = new Set(extractInvoiceIds(responseJson));
+    if (pathParams.invoiceId) invoiceIds.add(pathParams.invoiceId);
 
-    if (!response.ok) {
-      const errorData = await response.text();
-      return NextResponse.json(
-        { 
-          error: 'Strike API request failed',
-          status: response.status,
-          message: errorData 
-        },
-        { status: response.status }
-      );
+    if (forwarded && policy?.pattern === 'invoices' && method === 'POST' && isInvoice(responseJson)) {
+      await recordSiteInvoice(responseJson);
     }
 
-    const data = await response.json();
-    return NextResponse.json(data);
-
-  } catch (error) {
-    console.error('Strike API Error:', error);
-    return NextResponse.json(
-      { error: 'Failed to communicate with Strike API' },
-      { status: 500 }
-    );
-  }
-}
-
-export async function DELETE(
-  request: NextRequest,
-  { params }: { params: Promise<{ path: string[] }> }
-) {
-  try {
-    const apiKey = process.env.STRIKE_API_KEY;
-    
-    if (!apiKey) {
-      return NextResponse.json(
-        { error: 'Strike API key not configured' },
-        { status: 500 }
-      );
+    // Quotes are the only record of what a client actually paid in BTC
+    if (forwarded && policy?.pattern === 'invoices/{invoiceId}/quote' && isQuote(responseJson)) {
+      await recordQuote(pathParams.invoiceId, responseJson);
     }
 
-    const resolvedParams = await params;
-    const path = resolvedParams.path.join('/');
-    const strikeUrl = `${STRIKE_API_BASE}/${path}`;
-
-    const response = await fetch(strikeUrl, {
-      method: 'DELETE',
-      headers: {
-        'Authorization': `Bearer ${apiKey}`,
-        'Content-Type': 'application/json',
+    await recordAuditEntry({
+      timestamp: new Date(startedAt).toISOString(),
+      caller: {
+        role: getSession(request).role,
+        ip: getClientIp(request),
       },
+      method,
+      path: path.join('/'),
+      outcome: forwarded ? 'forwarded' : 'rejected',
+      status: response.status,
+      cache: response.headers.get('x-cache'),
+      latencyMs: Date.now() - startedAt,
+      invoiceIds: [...invoiceIds],
+      requestBody: redactBody(requestBody),
     });
 
-    if (!response.ok) {
-      const errorData = await response.text();
-      return NextResponse.json(
-        { 
-          error: 'Strike API request failed',
-          status: response.status,
-          message: errorData 
-        },
-        { status: response.status }
-      );
-    }
-
-    // DELETE requests might not return JSON
-    const contentType = response.headers.get('content-type');
-    if (contentType && contentType.includes('application/json')) {
-      const data = await response.json();
-      return NextResponse.json(data);
-    } else {
-      return NextResponse.json({ success: true });
-    }
+    return response;
+  };
 
-  } catch (error) {
-    console.error('Strike API Error:', error);
-    return NextResponse.json(
-      { error: 'Failed to communicate with Strike API' },
-      { status: 500 }
-    );
-  }
-} 
\ No newline at end of file
+export const GET = createHandler('GET');
+export const POST = createHandler('POST');
+export const PATCH = createHandler('PATCH');
+export const DELETE = createHandler('DELETE');
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getStrikeWebhookSecret, getWebhookToleranceMs } from '@/lib/strike/config';
+import {
+  WEBHOOK_SIGNATURE_HEADER,
+  isWebhookEvent,
+  recordWebhookEvent,
+  verifyWebhookSignature,
+} from '@/lib/strike/webhooks';
+
+export async function POST(request: NextRequest) {
+  try {
+    const secret = getStrikeWebhookSecret();
+
+    if (!secret) {
+      return NextResponse.json(
+        { error: 'Strike webhook secret not configured' },
+        { status: 500 }
+      );
+    }
+
+    const rawBody = await request.text();
+    const signature = request.headers.get(WEBHOOK_SIGNATURE_HEADER);
+
+    if (!verifyWebhookSignature(rawBody, signature, secret)) {
+      return NextResponse.json(
+        { error: 'Invalid webhook signature' },
+        { status: 401 }
+      );
+    }
+
+    let event: unknown;
+    try {
+      event = JSON.parse(rawBody);
+    } catch {
+      event = null;
+    }
+
+    if (!isWebhookEvent(event)) {
+      return NextResponse.json(
+        { error: 'Malformed webhook event' },
+        { status: 400 }
+      );
+    }
+
+    const createdAt = Date.parse(event.created);
+    if (Number.isNaN(createdAt) || Date.now() - createdAt > getWebhookToleranceMs()) {
+      return NextResponse.json(
+        { error: 'Webhook event is too old' },
+        { status: 400 }
+      );
+    }
+
+    const record = await recordWebhookEvent(event);
+
+    // Already processed: acknowledge so Strike stops redelivering, but do nothing
+    if (!record) {
+      return NextResponse.json({ received: true, duplicate: true });
+    }
+
+    return NextResponse.json({ received: true, invoiceState: record.invoiceState ?? null });
+
+  } catch (error) {
+    console.error('Strike Webhook Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to process Strike webhook' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,18 @@
 'use client';
 
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, useCallback, useId, useSyncExternalStore } from 'react';
 import Image from 'next/image';
+import QRCode from 'qrcode';
+import { createCheckoutInvoice, strikeProxyClient, type StrikeResult } from '@/lib/strike/client';
+import { TIP_PRESETS, getMaxTip, isValidTipAmount, tipDescription, type TipUnit } from '@/lib/strike/products';
+import { CONSULTATION_PACKAGES, SERVICES, type ServicePrice } from '@/lib/services';
+import { getPriceSnapshot, getServerPriceSnapshot, reconnectPrice, subscribeToPrice } from '@/lib/price/client';
+import { PRICE_CURRENCIES, formatFiat, isPriceCurrency, type PriceCurrency } from '@/lib/price/currencies';
+import { DISPLAY_UNITS, SATS_PER_BTC, formatBitcoin, formatBtcPrice, formatSats, isDisplayUnit, type DisplayUnit } from '@/lib/price/units';
+import { HOUSING_MARKETS, getDatedHomePrices, getHomePriceAt, getHousingMarket, getLatestHomePrice, type DatedHomePrice } from '@/lib/housing/markets';
+import { createPreference } from '@/lib/preferences';
+import { getResourceSnapshot, getServerResourceSnapshot, retryResource, subscribeToResource } from '@/lib/resources';
+import type { Invoice, Quote } from '@/lib/strike/types';
 
 // Proper Bitcoin Logo Component (₿)
 const BitcoinLogo = ({ className, style }: { className?: string; style?: React.CSSProperties }) => (
@@ -17,6 +28,276 @@ const MountainIcon = ({ className }: { className?: string }) => (
   </svg>
 );
 
+// Aggregated BTC price from `/api/price`, shared by every price widget
+const usePrice = (currency: PriceCurrency = 'USD') => {
+  const subscribe = useCallback((listener: () => void) => subscribeToPrice(currency, listener), [currency]);
+  return useSyncExternalStore(subscribe, () => getPriceSnapshot(currency), getServerPriceSnapshot);
+};
+
+// JSON from `url`, retried with backoff and backed by the last good response
+const useResource = <T,>(url: string, refreshMs?: number) => {
+  const subscribe = useCallback((listener: () => void) => subscribeToResource(url, listener, refreshMs), [url, refreshMs]);
+  const snapshot = useSyncExternalStore(subscribe, () => getResourceSnapshot<T>(url), getServerResourceSnapshot);
+  return { ...snapshot, retry: () => retryResource(url) };
+};
+
+// "14:05" for today, "Oct 17, 14:05" before that
+const formatAsOf = (iso: string) => {
+  const date = new Date(iso);
+  const time = date.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', hourCycle: 'h23' });
+  return date.toDateString() === new Date().toDateString()
+    ? time
+    : `${date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}, ${time}`;
+};
+
+// Says what a widget is showing instead of live data, with an in-place retry
+const FallbackNotice = ({ message, onRetry }: { message: string; onRetry: () => void }) => (
+  <div className="flex items-center justify-center gap-2 text-xs text-muted-foreground">
+    <span>{message}</span>
+    <button onClick={onRetry} className="text-primary hover:text-primary/80 transition-colors font-medium">
+      Retry
+    </button>
+  </div>
+);
+
+// Visitor's display currency, remembered between visits
+const currencyPreference = createPreference<PriceCurrency>('currency', 'USD', isPriceCurrency);
+
+const useCurrency = () =>
+  [
+    useSyncExternalStore(currencyPreference.subscribe, currencyPreference.get, currencyPreference.getServer),
+    currencyPreference.set,
+  ] as const;
+
+const CurrencySelect = () => {
+  const [currency, setCurrency] = useCurrency();
+
+  return (
+    <select
+      value={currency}
+      onChange={(e) => setCurrency(e.target.value as PriceCurrency)}
+      aria-label="Display currency"
+      className="px-2 py-1 rounded-full text-xs font-medium bg-muted text-muted-foreground border border-border focus:ring-2 focus:ring-primary focus:border-transparent transition-theme"
+    >
+      {PRICE_CURRENCIES.map(option => (
+        <option key={option} value={option}>{option}</option>
+      ))}
+    </select>
+  );
+};
+
+// Service, pass and package prices are whole US dollars
+const formatUsd = (value: number, options: Intl.NumberFormatOptions = {}) =>
+  formatFiat(value, 'USD', { minimumFractionDigits: 0, maximumFractionDigits: 0, ...options });
+
+// Visitor's display unit (₿, sats or fiat), remembered between visits
+const unitPreference = createPreference<DisplayUnit>('unit', 'fiat', isDisplayUnit);
+
+const useDisplayUnit = () =>
+  [
+    useSyncExternalStore(unitPreference.subscribe, unitPreference.get, unitPreference.getServer),
+    unitPreference.set,
+  ] as const;
+
+const UnitToggle = () => {
+  const [unit, setUnit] = useDisplayUnit();
+  const [currency] = useCurrency();
+  const labels: Record<DisplayUnit, string> = { btc: '₿', sats: 'sats', fiat: currency };
+
+  return (
+    <div role="group" aria-label="Display unit" className="flex items-center gap-1">
+      {DISPLAY_UNITS.map(option => (
+        <button
+          key={option}
+          onClick={() => setUnit(option)}
+          aria-pressed={unit === option}
+          className={`px-3 py-1 rounded-full text-xs font-medium transition-all duration-300 ${
+            unit === option
+              ? 'bg-primary text-primary-foreground'
+              : 'bg-muted text-muted-foreground hover:bg-accent hover:text-accent-foreground'
+          }`}
+        >
+          {labels[option]}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+interface ChartPoint {
+  timestamp: number;
+  value: number;
+}
+
+// Line chart with a shaded area, shared by the price and BTC/HOME charts
+const LineChart = ({
+  data,
+  formatValue,
+  formatDate
+}: {
+  data: ChartPoint[];
+  formatValue: (value: number) => string;
+  formatDate: (timestamp: number) => string;
+}) => {
+  // Gradient and pattern ids must stay unique with several charts on the page
+  const id = useId().replace(/[^a-zA-Z0-9]/g, '');
+  const width = 400;
+  const height = 120;
+  const padding = 10;
+
+  const values = data.map(d => d.value);
+  const minValue = Math.min(...values);
+  const maxValue = Math.max(...values);
+  const valueRange = maxValue - minValue || 1;
+
+  const toX = (index: number) =>
+    data.length > 1 ? padding + (index / (data.length - 1)) * (width - 2 * padding) : width / 2;
+  const toY = (value: number) => height - padding - ((value - minValue) / valueRange) * (height - 2 * padding);
+
+  const points = data.map((point, index) => `${toX(index)},${toY(point.value)}`).join(' L ');
+  const linePath = `M ${points}`;
+  const areaPath = `M ${points} L ${width - padding},${height - padding} L ${padding},${height - padding} Z`;
+
+  return (
+    <div className="w-full h-full relative">
+      <svg 
+        viewBox="0 0 400 120" 
+        className="w-full h-full"
+        style={{ filter: 'drop-shadow(0 2px 4px rgba(247, 147, 26, 0.2))' }}
+      >
+        <defs>
+          <linearGradient id={`${id}-area`} x1="0%" y1="0%" x2="0%" y2="100%">
+            <stop offset="0%" style={{ stopColor: 'var(--btc-orange)', stopOpacity: 0.3 }} />
+            <stop offset="100%" style={{ stopColor: 'var(--btc-orange)', stopOpacity: 0.05 }} />
+          </linearGradient>
+          <linearGradient id={`${id}-line`} x1="0%" y1="0%" x2="100%" y2="0%">
+            <stop offset="0%" style={{ stopColor: 'var(--btc-orange)', stopOpacity: 0.8 }} />
+            <stop offset="50%" style={{ stopColor: 'var(--btc-orange)', stopOpacity: 1 }} />
+            <stop offset="100%" style={{ stopColor: 'var(--btc-orange)', stopOpacity: 0.8 }} />
+          </linearGradient>
+        </defs>
+        
+        {/* Grid lines */}
+        <defs>
+          <pattern id={`${id}-grid`} patternUnits="userSpaceOnUse" width="40" height="24">
+            <rect width="40" height="24" fill="none" stroke="var(--grid-color)" strokeWidth="0.5" opacity="0.1"/>
+          </pattern>
+        </defs>
+        <rect width="100%" height="100%" fill={`url(#${id}-grid)`}/>
+        
+        {/* Area under curve */}
+        <path
+          d={areaPath}
+          fill={`url(#${id}-area)`}
+          className="animate-pulse"
+          style={{ animationDuration: '3s' }}
+        />
+        
+        {/* Main chart line */}
+        <path
+          d={linePath}
+          fill="none"
+          stroke={`url(#${id}-line)`}
+          strokeWidth="2"
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          className="animate-pulse"
+          style={{ 
+            strokeDasharray: '2000',
+            strokeDashoffset: '2000',
+            animation: 'drawLine 2s ease-out forwards, pulse 3s ease-in-out infinite 2s'
+          }}
+        />
+        
+        {/* Data points */}
+        {data.map((point, index) => {
+          if (index % Math.max(1, Math.floor(data.length / 8)) !== 0) return null;
+
+          return (
+            <circle
+              key={index}
+              cx={toX(index)}
+              cy={toY(point.value)}
+              r="2"
+              fill="var(--btc-orange)"
+              className="animate-pulse"
+              style={{ animationDelay: `${index * 0.1}s` }}
+            >
+              <title>{formatDate(point.timestamp)}: {formatValue(point.value)}</title>
+            </circle>
+          );
+        })}
+      </svg>
+      
+      {/* Floating Bitcoin symbols */}
+      <div className="absolute inset-0 pointer-events-none">
+        {[...Array(3)].map((_, i) => (
+          <div
+            key={i}
+            className="absolute animate-float opacity-20"
+            style={{
+              left: `${20 + i * 30}%`,
+              top: `${10 + i * 20}%`,
+              animationDelay: `${i * 2}s`,
+              animationDuration: `${6 + i}s`
+            }}
+          >
+            <BitcoinLogo className="text-primary text-lg" />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+// Chart, spinner while loading, or the load error with a retry
+const ChartArea = ({
+  data,
+  error,
+  onRetry,
+  formatValue,
+  formatDate
+}: {
+  data: ChartPoint[];
+  error: string | null;
+  onRetry: () => void;
+  formatValue: (value: number) => string;
+  formatDate: (timestamp: number) => string;
+}) => (
+  <div className="relative h-32 mb-4">
+    {data.length === 0 && !error ? (
+      <div className="flex items-center justify-center h-full">
+        <div className="animate-spin w-6 h-6 border-2 border-primary border-t-transparent rounded-full"></div>
+      </div>
+    ) : data.length === 0 ? (
+      <div className="flex items-center justify-center h-full">
+        <div className="text-sm text-muted-foreground text-center">
+          <div className="mb-2">Failed to load chart, retrying automatically</div>
+          <button 
+            onClick={onRetry}
+            className="text-primary hover:text-primary/80 transition-colors"
+          >
+            Retry now
+          </button>
+        </div>
+      </div>
+    ) : (
+      <LineChart data={data} formatValue={formatValue} formatDate={formatDate} />
+    )}
+  </div>
+);
+
+// Stored BTC price history from `/api/history`
+interface BitcoinHistory {
+  prices?: [number, number][];
+}
+
+const bitcoinHistoryUrl = (currency: PriceCurrency, days: number) =>
+  `/api/history?currency=${currency}&days=${days}`;
+
+const toChartPoints = (history: BitcoinHistory | null): ChartPoint[] =>
+  Array.isArray(history?.prices) ? history.prices.map(([timestamp, value]) => ({ timestamp, value })) : [];
+
 // Chart timeframe options (constant outside component to prevent re-creation)
 const CHART_TIMEFRAMES = [
   { label: '1D', value: '1D', days: 1 },
@@ -28,58 +309,28 @@ const CHART_TIMEFRAMES = [
 
 // Bitcoin Chart Widget Component
 const BitcoinChartWidget = () => {
+  const [currency] = useCurrency();
+  const [unit] = useDisplayUnit();
   const [timeframe, setTimeframe] = useState('7D');
-  const [chartData, setChartData] = useState<{price: number, timestamp: number}[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-
-  useEffect(() => {
-    const fetchChartData = async () => {
-      setLoading(true);
-      try {
-        const selectedTimeframe = CHART_TIMEFRAMES.find(t => t.value === timeframe);
-        const days = selectedTimeframe?.days || 7;
-        
-        // Use CoinGecko's free API for historical data
-        const response = await fetch(
-          `https://api.coingecko.com/api/v3/coins/bitcoin/market_chart?vs_currency=usd&days=${days}&interval=${days === 1 ? 'hourly' : 'daily'}`
-        );
-        
-        if (!response.ok) {
-          throw new Error('Failed to fetch chart data');
-        }
-        
-        const data = await response.json();
-        const formattedData = data.prices.map(([timestamp, price]: [number, number]) => ({
-          timestamp,
-          price
-        }));
-        
-        setChartData(formattedData);
-        setError(null);
-      } catch {
-        setError('Failed to load chart data');
-        // Fallback mock data for demo
-        const mockData = Array.from({ length: 20 }, (_, i) => ({
-          timestamp: Date.now() - (19 - i) * 24 * 60 * 60 * 1000,
-          price: 70000 + Math.random() * 10000 - 5000
-        }));
-        setChartData(mockData);
-      }
-      setLoading(false);
-    };
-
-    fetchChartData();
-  }, [timeframe]);
-
-  const formatPrice = (price: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-      minimumFractionDigits: 0,
-      maximumFractionDigits: 0,
-    }).format(price);
-  };
+  const days = CHART_TIMEFRAMES.find(t => t.value === timeframe)?.days || 7;
+
+  const { data, asOf, fallback, error, retry } = useResource<BitcoinHistory>(bitcoinHistoryUrl(currency, days));
+  const history = toChartPoints(data);
+
+  // The live feed supplies the latest point so the chart agrees with the price widget
+  const { price: live, fallback: liveFallback } = usePrice(currency);
+  const prices = live && !liveFallback && history.length > 0 && Date.parse(live.asOf) > history[history.length - 1].timestamp
+    ? [...history, { timestamp: Date.parse(live.asOf), value: live.price }]
+    : history;
+  // In sats the chart plots what one unit of the currency buys
+  const chartData = unit === 'sats'
+    ? prices.map(point => ({ ...point, value: SATS_PER_BTC / point.value }))
+    : prices;
+
+  const formatPrice = (price: number) =>
+    unit === 'sats'
+      ? formatSats(price, currency)
+      : formatFiat(price, currency, { minimumFractionDigits: 0, maximumFractionDigits: 0 });
 
   const formatDate = (timestamp: number) => {
     const date = new Date(timestamp);
@@ -91,8 +342,8 @@ const BitcoinChartWidget = () => {
 
   const calculateChange = () => {
     if (chartData.length < 2) return { amount: 0, percentage: 0 };
-    const first = chartData[0].price;
-    const last = chartData[chartData.length - 1].price;
+    const first = chartData[0].value;
+    const last = chartData[chartData.length - 1].value;
     const amount = last - first;
     const percentage = (amount / first) * 100;
     return { amount, percentage };
@@ -101,49 +352,6 @@ const BitcoinChartWidget = () => {
   const change = calculateChange();
   const isPositive = change.amount >= 0;
 
-  // Create SVG path for the chart
-  const createPath = () => {
-    if (chartData.length === 0) return '';
-    
-    const width = 400;
-    const height = 120;
-    const padding = 10;
-    
-    const prices = chartData.map(d => d.price);
-    const minPrice = Math.min(...prices);
-    const maxPrice = Math.max(...prices);
-    const priceRange = maxPrice - minPrice || 1;
-    
-    const points = chartData.map((point, index) => {
-      const x = padding + (index / (chartData.length - 1)) * (width - 2 * padding);
-      const y = height - padding - ((point.price - minPrice) / priceRange) * (height - 2 * padding);
-      return `${x},${y}`;
-    }).join(' L ');
-    
-    return `M ${points}`;
-  };
-
-  const createGradient = () => {
-    if (chartData.length === 0) return '';
-    
-    const width = 400;
-    const height = 120;
-    const padding = 10;
-    
-    const prices = chartData.map(d => d.price);
-    const minPrice = Math.min(...prices);
-    const maxPrice = Math.max(...prices);
-    const priceRange = maxPrice - minPrice || 1;
-    
-    const points = chartData.map((point, index) => {
-      const x = padding + (index / (chartData.length - 1)) * (width - 2 * padding);
-      const y = height - padding - ((point.price - minPrice) / priceRange) * (height - 2 * padding);
-      return `${x},${y}`;
-    }).join(' L ');
-    
-    return `M ${points} L ${width - padding},${height - padding} L ${padding},${height - padding} Z`;
-  };
-
   return (
     <div className="bg-card/95 backdrop-blur-sm border border-border rounded-xl p-6 hover:shadow-bitcoin transition-all duration-300 hover:scale-105 transition-theme">
       <div className="flex items-center justify-between mb-4">
@@ -151,10 +359,12 @@ const BitcoinChartWidget = () => {
           <div className="text-2xl">📈</div>
           <div>
             <h3 className="text-lg font-bold text-card-foreground">Bitcoin Chart</h3>
-            <p className="text-sm text-muted-foreground">Historical price data</p>
+            <p className="text-sm text-muted-foreground">
+              {unit === 'sats' ? `Sats per ${currency}` : 'Historical price data'}
+            </p>
           </div>
         </div>
-        {!loading && (
+        {chartData.length > 0 && (
           <div className="text-right">
             <div className={`text-sm font-bold ${isPositive ? 'text-green-500' : 'text-red-500'}`}>
               {isPositive ? '+' : ''}{formatPrice(change.amount)}
@@ -183,137 +393,24 @@ const BitcoinChartWidget = () => {
         ))}
       </div>
 
-      {/* Chart Area */}
-      <div className="relative h-32 mb-4">
-        {loading ? (
-          <div className="flex items-center justify-center h-full">
-            <div className="animate-spin w-6 h-6 border-2 border-primary border-t-transparent rounded-full"></div>
-          </div>
-        ) : error ? (
-          <div className="flex items-center justify-center h-full">
-            <div className="text-sm text-muted-foreground text-center">
-              <div className="mb-2">Failed to load chart</div>
-              <button 
-                onClick={() => window.location.reload()}
-                className="text-primary hover:text-primary/80 transition-colors"
-              >
-                Retry
-              </button>
-            </div>
-          </div>
-        ) : (
-          <div className="w-full h-full relative">
-            <svg 
-              viewBox="0 0 400 120" 
-              className="w-full h-full"
-              style={{ filter: 'drop-shadow(0 2px 4px rgba(247, 147, 26, 0.2))' }}
-            >
-              <defs>
-                <linearGradient id="chartGradient" x1="0%" y1="0%" x2="0%" y2="100%">
-                  <stop offset="0%" style={{ stopColor: 'var(--btc-orange)', stopOpacity: 0.3 }} />
-                  <stop offset="100%" style={{ stopColor: 'var(--btc-orange)', stopOpacity: 0.05 }} />
-                </linearGradient>
-                <linearGradient id="lineGradient" x1="0%" y1="0%" x2="100%" y2="0%">
-                  <stop offset="0%" style={{ stopColor: 'var(--btc-orange)', stopOpacity: 0.8 }} />
-                  <stop offset="50%" style={{ stopColor: 'var(--btc-orange)', stopOpacity: 1 }} />
-                  <stop offset="100%" style={{ stopColor: 'var(--btc-orange)', stopOpacity: 0.8 }} />
-                </linearGradient>
-              </defs>
-              
-              {/* Grid lines */}
-              <defs>
-                <pattern id="chartGrid" patternUnits="userSpaceOnUse" width="40" height="24">
-                  <rect width="40" height="24" fill="none" stroke="var(--grid-color)" strokeWidth="0.5" opacity="0.1"/>
-                </pattern>
-              </defs>
-              <rect width="100%" height="100%" fill="url(#chartGrid)"/>
-              
-              {/* Area under curve */}
-              <path
-                d={createGradient()}
-                fill="url(#chartGradient)"
-                className="animate-pulse"
-                style={{ animationDuration: '3s' }}
-              />
-              
-              {/* Main chart line */}
-              <path
-                d={createPath()}
-                fill="none"
-                stroke="url(#lineGradient)"
-                strokeWidth="2"
-                strokeLinecap="round"
-                strokeLinejoin="round"
-                className="animate-pulse"
-                style={{ 
-                  strokeDasharray: '2000',
-                  strokeDashoffset: '2000',
-                  animation: 'drawLine 2s ease-out forwards, pulse 3s ease-in-out infinite 2s'
-                }}
-              />
-              
-              {/* Data points */}
-              {chartData.map((point, index) => {
-                if (index % Math.max(1, Math.floor(chartData.length / 8)) !== 0) return null;
-                
-                const width = 400;
-                const height = 120;
-                const padding = 10;
-                const prices = chartData.map(d => d.price);
-                const minPrice = Math.min(...prices);
-                const maxPrice = Math.max(...prices);
-                const priceRange = maxPrice - minPrice || 1;
-                
-                const x = padding + (index / (chartData.length - 1)) * (width - 2 * padding);
-                const y = height - padding - ((point.price - minPrice) / priceRange) * (height - 2 * padding);
-                
-                return (
-                  <circle
-                    key={index}
-                    cx={x}
-                    cy={y}
-                    r="2"
-                    fill="var(--btc-orange)"
-                    className="animate-pulse"
-                    style={{ animationDelay: `${index * 0.1}s` }}
-                  >
-                    <title>{formatDate(point.timestamp)}: {formatPrice(point.price)}</title>
-                  </circle>
-                );
-              })}
-            </svg>
-            
-            {/* Floating Bitcoin symbols */}
-            <div className="absolute inset-0 pointer-events-none">
-              {[...Array(3)].map((_, i) => (
-                <div
-                  key={i}
-                  className="absolute animate-float opacity-20"
-                  style={{
-                    left: `${20 + i * 30}%`,
-                    top: `${10 + i * 20}%`,
-                    animationDelay: `${i * 2}s`,
-                    animationDuration: `${6 + i}s`
-                  }}
-                >
-                  <BitcoinLogo className="text-primary text-lg" />
-                </div>
-              ))}
-            </div>
-          </div>
-        )}
-      </div>
+      <ChartArea data={chartData} error={error} onRetry={retry} formatValue={formatPrice} formatDate={formatDate} />
+
+      {chartData.length > 0 && (fallback || error) && asOf && (
+        <div className="mb-2">
+          <FallbackNotice message={`Showing saved chart from ${formatAsOf(asOf)}`} onRetry={retry} />
+        </div>
+      )}
 
       {/* Price Range */}
-      {!loading && !error && chartData.length > 0 && (
+      {chartData.length > 0 && (
         <div className="flex justify-between text-xs text-muted-foreground">
           <div>
             <span>Low: </span>
-            <span className="font-semibold">{formatPrice(Math.min(...chartData.map(d => d.price)))}</span>
+            <span className="font-semibold">{formatPrice(Math.min(...chartData.map(d => d.value)))}</span>
           </div>
           <div>
             <span>High: </span>
-            <span className="font-semibold">{formatPrice(Math.max(...chartData.map(d => d.price)))}</span>
+            <span className="font-semibold">{formatPrice(Math.max(...chartData.map(d => d.value)))}</span>
           </div>
         </div>
       )}
@@ -323,73 +420,58 @@ const BitcoinChartWidget = () => {
 
 // Real-time Bitcoin Price Widget Component
 const BitcoinPriceWidget = () => {
-  const [price, setPrice] = useState<number | null>(null);
-  const [displayMode, setDisplayMode] = useState<'usd' | 'reno' | 'truckee'>('usd');
-  const [error, setError] = useState<string | null>(null);
+  const [currency] = useCurrency();
+  const [unit] = useDisplayUnit();
+  // 'fiat', or the id of a housing market for its BTC/HOME ratio
+  const [displayMode, setDisplayMode] = useState('fiat');
+  const market = getHousingMarket(displayMode);
+  const homePrice = market ? getLatestHomePrice(market) : null;
+  const fiatFeed = usePrice(currency);
+  // Home prices are in USD, so the BTC/HOME ratios always use the USD price
+  const usdFeed = usePrice('USD');
+  // Connection state and fallbacks are those of the feed behind the current mode
+  const shownCurrency = market ? 'USD' : currency;
+  const { price: feed, error, connection, stale, fallback } = market ? usdFeed : fiatFeed;
+  const usdPrice = usdFeed.price?.price ?? null;
+  const price = fiatFeed.price?.price ?? null;
 
-  // Home price data
-  const homeData = {
-    reno: { price: 607500, location: 'Reno' },
-    truckee: { price: 1140000, location: 'Truckee' }
-  };
+  const formatValue = () => {
+    if (homePrice) {
+      if (!usdPrice) return 'Loading...';
+      return `${(usdPrice / homePrice.medianPrice).toFixed(4)} Homes`;
+    }
 
-  useEffect(() => {
-    const fetchPrice = async () => {
-      try {
-        const response = await fetch('https://blockchain.info/ticker');
-        const data = await response.json();
-        setPrice(data.USD.last);
-        setError(null);
-      } catch {
-        setError('Failed to fetch price');
-      }
-    };
+    if (!price) return 'Loading...';
+    return formatBtcPrice(price, unit, currency);
+  };
 
-    fetchPrice();
-    const interval = setInterval(fetchPrice, 30000); // Update every 30 seconds
+  const fiatLabel = unit === 'sats' ? `SATS/${currency}` : `BTC/${currency}`;
 
-    return () => clearInterval(interval);
-  }, []);
+  const getDisplayLabel = () => (market ? `BTC/HOME (${market.name})` : fiatLabel);
 
-  const formatValue = () => {
-    if (!price) return 'Loading...';
-    
-    switch (displayMode) {
-      case 'usd':
-        return `$${price.toLocaleString()}`;
-      case 'reno':
-        const renoRatio = price / homeData.reno.price;
-        return `${renoRatio.toFixed(4)} Homes`;
-      case 'truckee':
-        const truckeeRatio = price / homeData.truckee.price;
-        return `${truckeeRatio.toFixed(4)} Homes`;
-      default:
-        return `$${price.toLocaleString()}`;
+  // Only called live while fresh prices are actually arriving
+  const getConnectionState = () => {
+    if (stale && feed) {
+      return { label: `Stale since ${formatAsOf(feed.asOf)}`, dotClassName: 'bg-red-500' };
     }
-  };
-
-  const getDisplayLabel = () => {
-    switch (displayMode) {
-      case 'usd':
-        return 'BTC/USD';
-      case 'reno':
-        return 'BTC/HOME (Reno)';
-      case 'truckee':
-        return 'BTC/HOME (Truckee)';
-      default:
-        return 'BTC/USD';
+    if (connection === 'reconnecting') {
+      return { label: 'Reconnecting...', dotClassName: 'bg-yellow-500 animate-pulse' };
     }
+    if (connection === 'open' && feed) {
+      return { label: 'Live', dotClassName: 'bg-green-500 animate-pulse' };
+    }
+    return { label: 'Connecting...', dotClassName: 'bg-muted-foreground' };
   };
 
+  const connectionState = getConnectionState();
+
   const getSubLabel = () => {
-    switch (displayMode) {
-      case 'reno':
-        return `Median: $${homeData.reno.price.toLocaleString()}`;
-      case 'truckee':
-        return `Median: $${homeData.truckee.price.toLocaleString()}`;
-      default:
-        return 'Live Price';
+    if (homePrice) {
+      if (!homePrice.asOf) return `Median ${formatUsd(homePrice.medianPrice)} (undated)`;
+      const asOf = new Date(`${homePrice.asOf}T00:00:00`).toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
+      return `Median ${formatUsd(homePrice.medianPrice)} (${homePrice.source}, ${asOf})`;
     }
+    return feed && !fallback ? `Median of ${feed.sources.filter(source => !source.stale).length} sources` : 'Live Price';
   };
 
   return (
@@ -399,63 +481,190 @@ const BitcoinPriceWidget = () => {
           <BitcoinLogo className="text-primary text-2xl" />
           <span className="font-semibold text-card-foreground">Live Bitcoin</span>
         </div>
-        <div className="flex items-center">
-          <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse mr-2"></div>
-          <span className="text-xs text-muted-foreground">Live</span>
+        <div className="flex items-center space-x-3">
+          <CurrencySelect />
+          <div className="flex items-center">
+            <div className={`w-2 h-2 rounded-full mr-2 ${connectionState.dotClassName}`}></div>
+            <span className="text-xs text-muted-foreground">{connectionState.label}</span>
+          </div>
         </div>
       </div>
 
       <div className="space-y-3">
         <div className="flex flex-wrap gap-1">
           <button
-            onClick={() => setDisplayMode('usd')}
+            onClick={() => setDisplayMode('fiat')}
             className={`px-3 py-1 rounded-full text-xs font-medium transition-all duration-300 ${
-              displayMode === 'usd' 
+              displayMode === 'fiat' 
                 ? 'bg-primary text-primary-foreground' 
                 : 'bg-muted text-muted-foreground hover:bg-accent hover:text-accent-foreground'
             }`}
           >
-            BTC/USD
+            {fiatLabel}
           </button>
+          {HOUSING_MARKETS.map(option => (
+            <button
+              key={option.id}
+              onClick={() => setDisplayMode(option.id)}
+              className={`px-3 py-1 rounded-full text-xs font-medium transition-all duration-300 ${
+                displayMode === option.id
+                  ? 'bg-primary text-primary-foreground'
+                  : 'bg-muted text-muted-foreground hover:bg-accent hover:text-accent-foreground'
+              }`}
+            >
+              BTC/{option.name}
+            </button>
+          ))}
+        </div>
+
+        <div className="text-center">
+          <div className="text-xs text-muted-foreground mb-1">{getDisplayLabel()}</div>
+          <div className="text-2xl font-bold text-card-foreground mb-1">
+            {error && !feed ? 'Unavailable' : formatValue()}
+          </div>
+          <div className="text-xs text-muted-foreground">{getSubLabel()}</div>
+        </div>
+      </div>
+
+      {feed && (stale || fallback) && (
+        <div className="mt-3">
+          <FallbackNotice message={`Last known price as of ${formatAsOf(feed.asOf)}`} onRetry={() => reconnectPrice(shownCurrency)} />
+        </div>
+      )}
+      {error && !feed && (
+        <div className="mt-3">
+          <FallbackNotice message="Price feed unavailable, retrying automatically" onRetry={() => reconnectPrice(shownCurrency)} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Home ratio chart timeframes; home medians are monthly, so no intraday views
+const HOME_RATIO_TIMEFRAMES = [
+  { label: '90D', value: '90D', days: 90 },
+  { label: '1Y', value: '1Y', days: 365 },
+  { label: '2Y', value: '2Y', days: 730 },
+  { label: '5Y', value: '5Y', days: 1825 }
+];
+
+// A ratio over a single median is just the BTC price rescaled
+const MIN_RATIO_MEDIANS = 2;
+
+const formatRatio = (value: number) => `${value.toFixed(4)} homes`;
+
+const formatMonth = (day: string) =>
+  new Date(`${day}T00:00:00`).toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
+
+// BTC/USD history divided by the median in effect on each day; days before
+// the market's first dated median are left out rather than backfilled
+const HomeRatioChart = ({ prices, days }: { prices: DatedHomePrice[]; days: number }) => {
+  const { data, asOf, fallback, error, retry } = useResource<BitcoinHistory>(bitcoinHistoryUrl('USD', days));
+  const ratios = toChartPoints(data).flatMap(point => {
+    const price = getHomePriceAt(prices, point.timestamp);
+    return price ? [{ timestamp: point.timestamp, value: point.value / price.medianPrice, price }] : [];
+  });
+  const chartData = ratios.map(({ timestamp, value }) => ({ timestamp, value }));
+  const sources = [...new Set(ratios.map(ratio => ratio.price.source))];
+  const medianCount = new Set(ratios.map(ratio => ratio.price.asOf)).size;
+  const clipped = toChartPoints(data).length > ratios.length;
+
+  const formatDate = (timestamp: number) =>
+    new Date(timestamp).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+  return (
+    <>
+      <ChartArea data={chartData} error={error} onRetry={retry} formatValue={formatRatio} formatDate={formatDate} />
+
+      {chartData.length > 0 && (fallback || error) && asOf && (
+        <div className="mb-2">
+          <FallbackNotice message={`Showing saved BTC prices from ${formatAsOf(asOf)}`} onRetry={retry} />
+        </div>
+      )}
+
+      {/* Ratio Range */}
+      {chartData.length > 0 && (
+        <div className="space-y-2 text-xs text-muted-foreground">
+          <div className="flex justify-between">
+            <div>
+              <span>Low: </span>
+              <span className="font-semibold">{formatRatio(Math.min(...chartData.map(d => d.value)))}</span>
+            </div>
+            <div>
+              <span>High: </span>
+              <span className="font-semibold">{formatRatio(Math.max(...chartData.map(d => d.value)))}</span>
+            </div>
+          </div>
+          <p>
+            Based on {medianCount} monthly median{medianCount === 1 ? '' : 's'} from {sources.join(', ')}.
+            {clipped && ` Starts at ${formatMonth(prices[0].asOf)}, the first recorded median.`}
+          </p>
+        </div>
+      )}
+    </>
+  );
+};
+
+// "How many houses is a bitcoin" over time, for markets with a dated median series
+const HomeRatioChartWidget = () => {
+  const [marketId, setMarketId] = useState(HOUSING_MARKETS[0].id);
+  const [timeframe, setTimeframe] = useState('1Y');
+  const market = getHousingMarket(marketId) ?? HOUSING_MARKETS[0];
+  const days = HOME_RATIO_TIMEFRAMES.find(t => t.value === timeframe)?.days || 365;
+  const prices = getDatedHomePrices(market);
+
+  return (
+    <div className="bg-card/95 backdrop-blur-sm border border-border rounded-xl p-6 hover:shadow-bitcoin transition-all duration-300 transition-theme">
+      <div className="flex items-center space-x-2 mb-4">
+        <div className="text-2xl">🏠</div>
+        <div>
+          <h3 className="text-lg font-bold text-card-foreground">Homes per Bitcoin</h3>
+          <p className="text-sm text-muted-foreground">BTC/HOME ({market.name}) over time</p>
+        </div>
+      </div>
+
+      {/* Market Selector */}
+      <div className="flex flex-wrap gap-1 mb-2">
+        {HOUSING_MARKETS.map(option => (
           <button
-            onClick={() => setDisplayMode('reno')}
+            key={option.id}
+            onClick={() => setMarketId(option.id)}
             className={`px-3 py-1 rounded-full text-xs font-medium transition-all duration-300 ${
-              displayMode === 'reno' 
-                ? 'bg-primary text-primary-foreground' 
+              market.id === option.id
+                ? 'bg-primary text-primary-foreground'
                 : 'bg-muted text-muted-foreground hover:bg-accent hover:text-accent-foreground'
             }`}
           >
-            BTC/Reno
+            {option.name}
           </button>
+        ))}
+      </div>
+
+      {/* Timeframe Selector */}
+      <div className="flex flex-wrap gap-1 mb-4">
+        {HOME_RATIO_TIMEFRAMES.map((tf) => (
           <button
-            onClick={() => setDisplayMode('truckee')}
+            key={tf.value}
+            onClick={() => setTimeframe(tf.value)}
             className={`px-3 py-1 rounded-full text-xs font-medium transition-all duration-300 ${
-              displayMode === 'truckee' 
-                ? 'bg-primary text-primary-foreground' 
+              timeframe === tf.value
+                ? 'bg-primary text-primary-foreground scale-105'
                 : 'bg-muted text-muted-foreground hover:bg-accent hover:text-accent-foreground'
             }`}
           >
-            BTC/Truckee
+            {tf.label}
           </button>
-        </div>
-
-        <div className="text-center">
-          <div className="text-xs text-muted-foreground mb-1">{getDisplayLabel()}</div>
-          <div className="text-2xl font-bold text-card-foreground mb-1">
-            {error ? 'Error' : formatValue()}
-          </div>
-          <div className="text-xs text-muted-foreground">{getSubLabel()}</div>
-        </div>
+        ))}
       </div>
 
-      {error && (
-        <div className="mt-3 text-center">
-          <button 
-            onClick={() => window.location.reload()} 
-            className="text-xs text-primary hover:text-primary/80 transition-colors"
-          >
-            Retry
-          </button>
+      {prices.length >= MIN_RATIO_MEDIANS ? (
+        <HomeRatioChart prices={prices} days={days} />
+      ) : (
+        <div className="flex items-center justify-center h-32 mb-4">
+          <p className="text-sm text-muted-foreground text-center max-w-sm">
+            No median series for {market.name} yet. The chart appears once the housing dataset
+            has at least {MIN_RATIO_MEDIANS} dated, sourced medians for it.
+          </p>
         </div>
       )}
     </div>
@@ -463,55 +672,40 @@ const BitcoinPriceWidget = () => {
 };
 
 // Ikon Pass "What If" Calculator Component
-const IkonPassCalculator = () => {
-  const [selectedYear, setSelectedYear] = useState('2018');
-  const [btcPrice, setBtcPrice] = useState<number | null>(null);
-
-  // Historical Ikon Pass prices
-  const ikonPrices = {
-    '2018': 999,
-    '2019': 999,
-    '2020': 1049,
-    '2021': 1149,
-    '2022': 1169,
-    '2023': 1159,
-    '2024': 1429
-  };
+// Historical Ikon Pass prices
+const IKON_PASS_PRICES = {
+  '2018': 999,
+  '2019': 999,
+  '2020': 1049,
+  '2021': 1149,
+  '2022': 1169,
+  '2023': 1159,
+  '2024': 1429
+};
 
-  // Bitcoin prices on roughly Nov 1st each year (when Ikon passes typically go on sale)
-  const btcHistoricalPrices = {
-    '2018': 6347,
-    '2019': 9150,
-    '2020': 13780,
-    '2021': 61350,
-    '2022': 20550,
-    '2023': 34500,
-    '2024': 69500
-  };
+// Ikon passes typically go on sale around Nov 1st
+const ikonSaleDate = (year: string) => `${year}-11-01`;
 
-  useEffect(() => {
-    const fetchCurrentPrice = async () => {
-      try {
-        const response = await fetch('https://blockchain.info/ticker');
-        const data = await response.json();
-        setBtcPrice(data.USD.last);
-      } catch {
-        setBtcPrice(70000); // Fallback price
-      }
-    };
+const IKON_HISTORY_URL = `/api/history?currency=USD&dates=${Object.keys(IKON_PASS_PRICES).map(ikonSaleDate).join(',')}`;
 
-    fetchCurrentPrice();
-  }, []);
+const IkonPassCalculator = () => {
+  const [selectedYear, setSelectedYear] = useState('2018');
+  const [unit] = useDisplayUnit();
+  const { price: feed, error, stale, fallback } = usePrice();
+  const btcPrice = feed?.price ?? null;
+  const history = useResource<BitcoinHistory>(IKON_HISTORY_URL);
+  const saleDate = ikonSaleDate(selectedYear);
 
   const calculateWhatIf = () => {
-    const passPrice = ikonPrices[selectedYear as keyof typeof ikonPrices];
-    const historicalBtcPrice = btcHistoricalPrices[selectedYear as keyof typeof btcHistoricalPrices];
-    const currentBtcPrice = btcPrice || 70000;
+    const passPrice = IKON_PASS_PRICES[selectedYear as keyof typeof IKON_PASS_PRICES];
+    const historicalBtcPrice = history.data?.prices
+      ?.find(([timestamp]) => new Date(timestamp).toISOString().slice(0, 10) === saleDate)?.[1] ?? null;
 
-    const btcAmount = passPrice / historicalBtcPrice;
-    const currentValue = btcAmount * currentBtcPrice;
-    const gainLoss = currentValue - passPrice;
-    const gainLossPercent = ((currentValue - passPrice) / passPrice) * 100;
+    // Both prices must be real; without one the dependent values are left blank
+    const btcAmount = historicalBtcPrice !== null ? passPrice / historicalBtcPrice : null;
+    const currentValue = btcAmount !== null && btcPrice !== null ? btcAmount * btcPrice : null;
+    const gainLoss = currentValue !== null ? currentValue - passPrice : null;
+    const gainLossPercent = gainLoss !== null ? (gainLoss / passPrice) * 100 : null;
 
     return {
       passPrice,
@@ -525,6 +719,13 @@ const IkonPassCalculator = () => {
 
   const results = calculateWhatIf();
 
+  // Today's values in the visitor's unit; in ₿ or sats they are converted at today's price
+  const formatValueToday = (usd: number, options: Intl.NumberFormatOptions = {}) => {
+    if (unit === 'fiat' || btcPrice === null) return formatUsd(usd, options);
+    const sign = options.signDisplay === 'exceptZero' && usd > 0 ? '+' : usd < 0 ? '-' : '';
+    return `${sign}${formatBitcoin(Math.abs(usd) / btcPrice, unit)}`;
+  };
+
   return (
     <div className="bg-card/95 backdrop-blur-sm border border-border rounded-xl p-6 hover:shadow-bitcoin transition-all duration-300 hover:scale-105 transition-theme">
       <div className="flex items-center space-x-2 mb-6">
@@ -545,9 +746,9 @@ const IkonPassCalculator = () => {
             onChange={(e) => setSelectedYear(e.target.value)}
             className="w-full p-2 rounded-lg border border-border bg-background text-foreground focus:ring-2 focus:ring-primary focus:border-transparent transition-theme"
           >
-            {Object.entries(ikonPrices).map(([year, price]) => (
+            {Object.entries(IKON_PASS_PRICES).map(([year, price]) => (
               <option key={year} value={year}>
-                {year}-{parseInt(year) + 1} Season - ${price}
+                {year}-{parseInt(year) + 1} Season - {formatUsd(price)}
               </option>
             ))}
           </select>
@@ -556,33 +757,53 @@ const IkonPassCalculator = () => {
         <div className="bg-muted/50 rounded-lg p-4 space-y-3">
           <div className="flex justify-between text-sm">
             <span className="text-muted-foreground">Ikon Pass Price:</span>
-            <span className="font-semibold text-card-foreground">${results.passPrice.toLocaleString()}</span>
+            <span className="font-semibold text-card-foreground">{formatUsd(results.passPrice)}</span>
           </div>
           <div className="flex justify-between text-sm">
             <span className="text-muted-foreground">BTC Price Then:</span>
-            <span className="font-semibold text-card-foreground">${results.historicalBtcPrice.toLocaleString()}</span>
+            <span className="font-semibold text-card-foreground">
+              {results.historicalBtcPrice !== null ? formatBtcPrice(results.historicalBtcPrice, unit, 'USD', { minimumFractionDigits: 0, maximumFractionDigits: 0 }) : '—'}
+            </span>
           </div>
           <div className="flex justify-between text-sm">
             <span className="text-muted-foreground">Bitcoin Amount:</span>
-            <span className="font-semibold text-card-foreground">{results.btcAmount.toFixed(6)} BTC</span>
+            <span className="font-semibold text-card-foreground">
+              {results.btcAmount !== null ? formatBitcoin(results.btcAmount, unit) : '—'}
+            </span>
           </div>
           <div className="border-t border-border pt-3">
             <div className="flex justify-between text-sm">
               <span className="text-muted-foreground">Value Today:</span>
-              <span className="font-bold text-xl text-primary">${results.currentValue.toLocaleString(undefined, {maximumFractionDigits: 0})}</span>
+              <span className="font-bold text-xl text-primary">
+                {results.currentValue !== null ? formatValueToday(results.currentValue) : '—'}
+              </span>
             </div>
             <div className="flex justify-between text-sm mt-1">
               <span className="text-muted-foreground">Gain/Loss:</span>
-              <span className={`font-bold ${results.gainLoss >= 0 ? 'text-green-500' : 'text-red-500'}`}>
-                {results.gainLoss >= 0 ? '+' : ''}${results.gainLoss.toLocaleString(undefined, {maximumFractionDigits: 0})} 
-                ({results.gainLossPercent >= 0 ? '+' : ''}{results.gainLossPercent.toFixed(1)}%)
-              </span>
+              {results.gainLoss !== null && results.gainLossPercent !== null ? (
+                <span className={`font-bold ${results.gainLoss >= 0 ? 'text-green-500' : 'text-red-500'}`}>
+                  {formatValueToday(results.gainLoss, { signDisplay: 'exceptZero' })} 
+                  ({results.gainLossPercent >= 0 ? '+' : ''}{results.gainLossPercent.toFixed(1)}%)
+                </span>
+              ) : (
+                <span className="font-bold text-muted-foreground">—</span>
+              )}
             </div>
           </div>
         </div>
 
+        {results.historicalBtcPrice === null && (history.error || !history.loading) && (
+          <FallbackNotice message={`No stored BTC price for ${saleDate} yet`} onRetry={history.retry} />
+        )}
+        {feed && (stale || fallback) && (
+          <FallbackNotice message={`Using the BTC price from ${formatAsOf(feed.asOf)}`} onRetry={() => reconnectPrice('USD')} />
+        )}
+        {error && !feed && (
+          <FallbackNotice message="Live BTC price unavailable, so today's value can't be shown" onRetry={() => reconnectPrice('USD')} />
+        )}
+
         <div className="text-center text-xs text-muted-foreground">
-          Historical data approximate. Past performance doesn&apos;t guarantee future results.
+          BTC price on Nov 1st of the sale year, from the site&apos;s price history. Past performance doesn&apos;t guarantee future results.
         </div>
       </div>
     </div>
@@ -821,6 +1042,7 @@ const Navigation = () => {
                 <span className="absolute bottom-0 left-0 w-0 h-0.5 bg-primary transition-all duration-300 group-hover:w-full"></span>
               </a>
             ))}
+            <UnitToggle />
             <ThemeToggle />
             <a
               href="#contact"
@@ -864,6 +1086,9 @@ const Navigation = () => {
                   {item.label}
                 </a>
               ))}
+              <div className="px-3 py-2">
+                <UnitToggle />
+              </div>
               <a
                 href="#contact"
                 className="block px-3 py-2 bg-gradient-bitcoin text-primary-foreground rounded-full font-semibold text-center mt-4 animate-slide-in-left"
@@ -967,44 +1192,12 @@ const HeroSection = () => {
 
 // Services Section Component
 const ServicesSection = () => {
-  const services = [
-    {
-      title: "Bitcoin Self-Custody",
-      description: "Learn to secure your Bitcoin in cold storage with zero third-party risk.",
-      icon: "🔐",
-      category: "Security"
-    },
-    {
-      title: "Multi-Signature Setup", 
-      description: "Advanced security with collaborative custody and backup options.",
-      icon: "🛡️",
-      category: "Security"
-    },
-    {
-      title: "Bitcoin Node Setup",
-      description: "Run your own node and become part of the Bitcoin network.",
-      icon: "🌐",
-      category: "Technical"
-    },
-    {
-      title: "DCA Strategy",
-      description: "Set up automated dollar-cost averaging to build your stack.",
-      icon: "📈",
-      category: "Strategy"
-    },
-    {
-      title: "UTXO Management",
-      description: "Optimize your Bitcoin transactions and avoid high fees.",
-      icon: "⚡",
-      category: "Technical"
-    },
-    {
-      title: "Seed Recovery",
-      description: "Recover access to lost Bitcoin wallets safely and securely.",
-      icon: "🔑",
-      category: "Recovery"
-    }
-  ];
+  const [unit] = useDisplayUnit();
+  // Sats prices follow the server's BTC/USD rate; USD list prices show regardless
+  const { data: pricing, fallback, error, retry } = useResource<{ rate: { usdPerBtc: number; asOf: string }; prices: ServicePrice[] }>(
+    '/api/services/pricing',
+    60_000
+  );
 
   return (
     <section id="services" className="py-20 lg:py-32 bg-gradient-to-br from-background via-muted/30 to-background relative overflow-hidden transition-theme">
@@ -1021,31 +1214,69 @@ const ServicesSection = () => {
         </AnimatedSection>
 
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
-          {services.map((service, index) => (
-            <AnimatedSection 
-              key={index} 
-              delay={index * 150}
-              animation="fade-up"
-            >
-              <div className="bg-card/95 backdrop-blur-sm border border-border rounded-xl p-8 hover:shadow-bitcoin hover:bg-card transition-all duration-500 hover:-translate-y-2 group transition-theme">
-                <div className="text-5xl mb-6 group-hover:scale-110 transition-transform duration-300 text-center group-hover:animate-pulse">
-                  {service.icon}
-                </div>
-                <div className="text-center">
-                  <div className="inline-block px-3 py-1 bg-accent/10 text-accent text-xs font-medium rounded-full mb-4 group-hover:bg-accent/20 transition-colors duration-300">
-                    {service.category}
+          {SERVICES.map((service, index) => {
+            const price = pricing?.prices.find(p => p.serviceId === service.id);
+            return (
+              <AnimatedSection 
+                key={service.id} 
+                delay={index * 150}
+                animation="fade-up"
+              >
+                <div className="bg-card/95 backdrop-blur-sm border border-border rounded-xl p-8 hover:shadow-bitcoin hover:bg-card transition-all duration-500 hover:-translate-y-2 group transition-theme">
+                  <div className="text-5xl mb-6 group-hover:scale-110 transition-transform duration-300 text-center group-hover:animate-pulse">
+                    {service.icon}
+                  </div>
+                  <div className="text-center">
+                    <div className="inline-block px-3 py-1 bg-accent/10 text-accent text-xs font-medium rounded-full mb-4 group-hover:bg-accent/20 transition-colors duration-300">
+                      {service.category}
+                    </div>
+                    <h3 className="text-xl font-bold mb-4 text-card-foreground group-hover:text-primary transition-colors duration-300">
+                      {service.title}
+                    </h3>
+                    <p className="text-muted-foreground leading-relaxed">
+                      {service.description}
+                    </p>
+                    <div className="mt-6 pt-4 border-t border-border">
+                      {unit === 'fiat' ? (
+                        <>
+                          <div className="text-2xl font-bold text-card-foreground">{formatUsd(service.priceUsd)}</div>
+                          <div className="text-sm font-mono text-primary mt-1">
+                            {price ? formatBitcoin(price.sats / SATS_PER_BTC, unit) : '₿ —'}
+                          </div>
+                        </>
+                      ) : (
+                        <>
+                          <div className="text-2xl font-bold text-card-foreground">
+                            {price ? formatBitcoin(price.sats / SATS_PER_BTC, unit) : unit === 'sats' ? '— sats' : '₿ —'}
+                          </div>
+                          <div className="text-sm text-muted-foreground mt-1">{formatUsd(service.priceUsd)} list price</div>
+                        </>
+                      )}
+                      {price && price.discountPercent > 0 && (
+                        <div className="inline-block mt-2 px-3 py-1 bg-primary/10 text-primary text-xs font-medium rounded-full">
+                          {price.discountPercent}% Bitcoin-only discount: {formatUsd(price.priceUsd, { minimumFractionDigits: Number.isInteger(price.priceUsd) ? 0 : 2, maximumFractionDigits: 2 })}
+                        </div>
+                      )}
+                    </div>
                   </div>
-                  <h3 className="text-xl font-bold mb-4 text-card-foreground group-hover:text-primary transition-colors duration-300">
-                    {service.title}
-                  </h3>
-                  <p className="text-muted-foreground leading-relaxed">
-                    {service.description}
-                  </p>
                 </div>
-              </div>
-            </AnimatedSection>
-          ))}
+              </AnimatedSection>
+            );
+          })}
         </div>
+
+        {pricing && (fallback || error) ? (
+          <div className="mt-8">
+            <FallbackNotice
+              message={`Showing saved bitcoin prices at ${formatUsd(pricing.rate.usdPerBtc)}/BTC from ${formatAsOf(pricing.rate.asOf)}`}
+              onRetry={retry}
+            />
+          </div>
+        ) : pricing && (
+          <p className="text-center text-xs text-muted-foreground mt-8">
+            Bitcoin prices at {formatUsd(pricing.rate.usdPerBtc)}/BTC as of {new Date(pricing.rate.asOf).toLocaleTimeString('en-US')}
+          </p>
+        )}
       </div>
     </section>
   );
@@ -1084,6 +1315,14 @@ const BitcoinToolsSection = () => (
         </AnimatedSection>
       </div>
 
+      <AnimatedSection className="max-w-6xl mx-auto mt-8" delay={650}>
+        <HomeRatioChartWidget />
+      </AnimatedSection>
+
+      <AnimatedSection className="max-w-xl mx-auto mt-8" delay={700}>
+        <LightningTipJar />
+      </AnimatedSection>
+
       <AnimatedSection className="text-center mt-12" delay={800}>
         <div className="bg-card/95 backdrop-blur-sm border border-border rounded-xl p-6 max-w-2xl mx-auto transition-theme">
           <h3 className="text-lg font-bold mb-3 text-card-foreground">💡 Pro Tip</h3>
@@ -1443,6 +1682,491 @@ const BlogSection = () => {
   );
 };
 
+// QR code rendered as SVG modules so it stays crisp at any size
+const QrCode = ({ value, className }: { value: string; className?: string }) => {
+  const qr = QRCode.create(value, { errorCorrectionLevel: 'M' });
+  const size = qr.modules.size;
+  const quietZone = 4;
+
+  let path = '';
+  for (let row = 0; row < size; row++) {
+    for (let col = 0; col < size; col++) {
+      if (qr.modules.get(row, col)) {
+        path += `M${col + quietZone},${row + quietZone}h1v1h-1z`;
+      }
+    }
+  }
+
+  return (
+    <svg
+      viewBox={`0 0 ${size + quietZone * 2} ${size + quietZone * 2}`}
+      className={className}
+      shapeRendering="crispEdges"
+      role="img"
+      aria-label="Lightning invoice QR code"
+    >
+      <rect width="100%" height="100%" fill="#ffffff" />
+      <path d={path} fill="#000000" />
+    </svg>
+  );
+};
+
+type LightningInvoiceStatus = 'idle' | 'creating' | 'awaiting' | 'paid' | 'error';
+
+// Creates the invoice with the given idempotency key, so a retried request can't double-invoice
+type InvoiceCreator = (idempotencyKey: string) => Promise<StrikeResult<Invoice>>;
+
+// Invoice -> quote -> poll-until-paid flow shared by the checkout and the tip jar
+const useLightningInvoice = () => {
+  const [status, setStatus] = useState<LightningInvoiceStatus>('idle');
+  const [invoiceId, setInvoiceId] = useState<string | null>(null);
+  const [quote, setQuote] = useState<Quote | null>(null);
+  const [secondsLeft, setSecondsLeft] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  // One idempotency key per attempt, reused by retries until an invoice is created
+  const attemptKey = useRef<string | null>(null);
+  const lastCreate = useRef<InvoiceCreator | null>(null);
+
+  const requestQuote = async (id: string) => {
+    const result = await strikeProxyClient.createQuote(id);
+    if (!result.ok) {
+      throw new Error(result.error.message);
+    }
+    setQuote(result.data);
+  };
+
+  const createInvoice = async (create: InvoiceCreator) => {
+    attemptKey.current ??= crypto.randomUUID();
+    lastCreate.current = create;
+    setStatus('creating');
+    setError(null);
+    try {
+      const result = await create(attemptKey.current);
+      if (!result.ok) {
+        throw new Error(result.error.message);
+      }
+      attemptKey.current = null;
+      setInvoiceId(result.data.invoiceId);
+      await requestQuote(result.data.invoiceId);
+      setStatus('awaiting');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not create an invoice. Please try again.');
+      setStatus('error');
+    }
+  };
+
+  const refreshQuote = async () => {
+    if (!invoiceId) return;
+    try {
+      await requestQuote(invoiceId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not refresh the quote. Please try again.');
+      setStatus('error');
+    }
+  };
+
+  // Repeats whatever failed: the quote for an invoice that exists, else the invoice under the same key
+  const retry = async () => {
+    if (!invoiceId) {
+      if (lastCreate.current) await createInvoice(lastCreate.current);
+      return;
+    }
+    setError(null);
+    try {
+      await requestQuote(invoiceId);
+      setStatus('awaiting');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not get a quote. Please try again.');
+    }
+  };
+
+  const reset = () => {
+    attemptKey.current = null;
+    lastCreate.current = null;
+    setStatus('idle');
+    setInvoiceId(null);
+    setQuote(null);
+    setSecondsLeft(0);
+    setError(null);
+  };
+
+  const copyInvoice = async () => {
+    if (!quote) return;
+    await navigator.clipboard.writeText(quote.lnInvoice);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  // Countdown until the current quote expires
+  useEffect(() => {
+    if (!quote) return;
+
+    const updateCountdown = () => {
+      const remaining = Math.max(0, Math.floor((Date.parse(quote.expiration) - Date.now()) / 1000));
+      setSecondsLeft(remaining);
+    };
+
+    updateCountdown();
+    const interval = setInterval(updateCountdown, 1000);
+    return () => clearInterval(interval);
+  }, [quote]);
+
+  // Poll the invoice until Strike reports it as paid
+  useEffect(() => {
+    if (status !== 'awaiting' || !invoiceId) return;
+
+    const checkInvoice = async () => {
+      // A failed check just waits for the next poll
+      const result = await strikeProxyClient.getInvoice(invoiceId);
+      if (result.ok && result.data.state === 'PAID') {
+        setStatus('paid');
+      }
+    };
+
+    const interval = setInterval(checkInvoice, 3000);
+    return () => clearInterval(interval);
+  }, [status, invoiceId]);
+
+  return { status, invoiceId, quote, secondsLeft, error, copied, createInvoice, refreshQuote, retry, reset, copyInvoice };
+};
+
+type LightningInvoice = ReturnType<typeof useLightningInvoice>;
+
+const formatCountdown = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${(seconds % 60).toString().padStart(2, '0')}`;
+};
+
+// QR code, countdown and copy/cancel controls while an invoice awaits payment
+const LightningQuotePanel = ({ invoice, summary }: { invoice: LightningInvoice; summary: string }) => {
+  const { quote, secondsLeft, copied } = invoice;
+  const [unit] = useDisplayUnit();
+  if (!quote) return null;
+
+  const { amount, currency } = quote.sourceAmount;
+
+  return (
+    <div className="text-center space-y-4">
+      <div className="text-sm text-muted-foreground">
+        {summary} ≈ {currency === 'BTC' ? formatBitcoin(Number(amount), unit) : `${amount} ${currency}`}
+      </div>
+      {secondsLeft > 0 ? (
+        <>
+          <a href={`lightning:${quote.lnInvoice}`} className="block max-w-[240px] mx-auto rounded-lg overflow-hidden">
+            <QrCode value={`LIGHTNING:${quote.lnInvoice.toUpperCase()}`} className="w-full h-auto" />
+          </a>
+          <div className="text-xs text-muted-foreground">
+            Quote expires in <span className="font-mono font-semibold text-card-foreground">{formatCountdown(secondsLeft)}</span>
+          </div>
+          <div className="flex justify-center gap-2">
+            <button
+              onClick={invoice.copyInvoice}
+              className="px-4 py-2 rounded-full text-xs font-medium bg-muted text-muted-foreground hover:bg-accent hover:text-accent-foreground transition-all duration-300"
+            >
+              {copied ? 'Copied!' : 'Copy Invoice'}
+            </button>
+            <button
+              onClick={invoice.reset}
+              className="px-4 py-2 rounded-full text-xs font-medium bg-muted text-muted-foreground hover:bg-accent hover:text-accent-foreground transition-all duration-300"
+            >
+              Cancel
+            </button>
+          </div>
+          <div className="flex items-center justify-center text-xs text-muted-foreground">
+            <div className="w-2 h-2 bg-primary rounded-full animate-pulse mr-2"></div>
+            Waiting for payment...
+          </div>
+        </>
+      ) : (
+        <div className="space-y-3">
+          <div className="text-sm text-card-foreground">This quote has expired.</div>
+          <button
+            onClick={invoice.refreshQuote}
+            className="px-6 py-2 rounded-full bg-gradient-bitcoin text-primary-foreground font-semibold hover:scale-105 transition-all duration-300"
+          >
+            Get a New Quote
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const LightningErrorPanel = ({ invoice }: { invoice: LightningInvoice }) => (
+  <div className="text-center space-y-3 py-4">
+    <div className="text-sm text-red-500">{invoice.error}</div>
+    <div className="flex justify-center gap-4">
+      <button
+        onClick={invoice.retry}
+        className="text-sm text-primary hover:text-primary/80 transition-colors font-semibold"
+      >
+        Try Again
+      </button>
+      <button
+        onClick={invoice.reset}
+        className="text-sm text-primary hover:text-primary/80 transition-colors"
+      >
+        Start Over
+      </button>
+    </div>
+  </div>
+);
+
+// Lightning Checkout Component - pay for a consultation through Strike
+const LightningCheckout = () => {
+  const [selectedPackage, setSelectedPackage] = useState(CONSULTATION_PACKAGES[0].id);
+  const invoice = useLightningInvoice();
+  const { status, invoiceId } = invoice;
+
+  const consultation = CONSULTATION_PACKAGES.find(p => p.id === selectedPackage) || CONSULTATION_PACKAGES[0];
+
+  // Priced on the server from the package id
+  const startCheckout = () =>
+    invoice.createInvoice(idempotencyKey => createCheckoutInvoice(consultation.id, { idempotencyKey }));
+
+  return (
+    <div className="bg-muted/30 rounded-xl p-6 text-left">
+      <div className="flex items-center space-x-2 mb-4">
+        <div className="text-2xl">⚡</div>
+        <div>
+          <h3 className="text-lg font-bold text-card-foreground">Pay with Lightning</h3>
+          <p className="text-sm text-muted-foreground">Book and pay for a session in seconds</p>
+        </div>
+      </div>
+
+      {(status === 'idle' || status === 'creating') && (
+        <div className="space-y-3">
+          {CONSULTATION_PACKAGES.map((pkg) => (
+            <button
+              key={pkg.id}
+              onClick={() => setSelectedPackage(pkg.id)}
+              disabled={status === 'creating'}
+              className={`w-full p-4 rounded-lg text-left transition-all duration-300 ${
+                selectedPackage === pkg.id
+                  ? 'bg-primary text-primary-foreground'
+                  : 'bg-muted text-muted-foreground hover:bg-accent hover:text-accent-foreground'
+              }`}
+            >
+              <div className="flex justify-between items-start">
+                <div>
+                  <div className="font-semibold">{pkg.name}</div>
+                  <div className="text-xs opacity-80">{pkg.duration} • {pkg.description}</div>
+                </div>
+                <div className="font-bold">{formatUsd(pkg.priceUsd)}</div>
+              </div>
+            </button>
+          ))}
+          <button
+            onClick={startCheckout}
+            disabled={status === 'creating'}
+            className="w-full bg-gradient-bitcoin text-primary-foreground px-6 py-3 rounded-full font-bold hover:scale-105 transition-all duration-300 shadow-bitcoin disabled:opacity-50"
+          >
+            {status === 'creating' ? 'Creating Invoice...' : `Pay ${formatUsd(consultation.priceUsd)} with Lightning`}
+          </button>
+        </div>
+      )}
+
+      {status === 'awaiting' && (
+        <LightningQuotePanel invoice={invoice} summary={`${consultation.name} • ${formatUsd(consultation.priceUsd)}`} />
+      )}
+
+      {status === 'paid' && (
+        <div className="text-center space-y-3 py-4">
+          <div className="text-5xl">✅</div>
+          <div className="text-lg font-bold text-card-foreground">Payment received!</div>
+          <p className="text-sm text-muted-foreground">
+            Thanks for booking the {consultation.name}. Email us with your invoice ID to schedule your session.
+          </p>
+          <div className="text-xs font-mono text-muted-foreground break-all">{invoiceId}</div>
+          <a
+            href={`mailto:hello@tahoebitcoin.com?subject=${encodeURIComponent(`${consultation.name} booking`)}&body=${encodeURIComponent(`Invoice ID: ${invoiceId}`)}`}
+            className="inline-block text-sm text-primary hover:text-primary/80 transition-colors font-semibold"
+          >
+            Schedule My Session →
+          </a>
+          <a
+            href={`/receipts/${invoiceId}`}
+            className="block text-xs text-muted-foreground hover:text-primary transition-colors"
+          >
+            View receipt
+          </a>
+        </div>
+      )}
+
+      {status === 'error' && <LightningErrorPanel invoice={invoice} />}
+    </div>
+  );
+};
+
+const TIP_NOTE_MAX_LENGTH = 100;
+
+// Lightning Tip Jar Component - support the free tools and content
+const LightningTipJar = () => {
+  const [displayUnit] = useDisplayUnit();
+  // Follows the site-wide display unit until the visitor picks one here
+  const [chosenUnit, setUnit] = useState<TipUnit | null>(null);
+  const unit: TipUnit = chosenUnit ?? (displayUnit === 'fiat' ? 'USD' : 'sats');
+  // The middle preset until the visitor picks an amount
+  const [chosenAmount, setAmount] = useState<number | null>(null);
+  const amount = chosenAmount ?? TIP_PRESETS[unit][1];
+  const [customAmount, setCustomAmount] = useState('');
+  const [note, setNote] = useState('');
+  const invoice = useLightningInvoice();
+  const { status } = invoice;
+
+  const presets = TIP_PRESETS[unit];
+  const maxTip = getMaxTip(unit);
+  const tipAmount = customAmount ? Number(customAmount) : amount;
+  const isValidTip = isValidTipAmount(unit, tipAmount);
+
+  const formatTip = (value: number) =>
+    unit === 'sats'
+      ? formatSats(value)
+      : formatUsd(value, { minimumFractionDigits: Number.isInteger(value) ? 0 : 2, maximumFractionDigits: 2 });
+
+  const selectUnit = (nextUnit: TipUnit) => {
+    setUnit(nextUnit);
+    setAmount(null);
+    setCustomAmount('');
+  };
+
+  const sendTip = () => {
+    invoice.createInvoice(idempotencyKey => strikeProxyClient.createInvoice(
+      {
+        // The correlation ID doubles as the idempotency key
+        correlationId: idempotencyKey,
+        description: tipDescription(note.trim()),
+        amount: unit === 'sats'
+          ? { currency: 'BTC', amount: (tipAmount / SATS_PER_BTC).toFixed(8) }
+          : { currency: 'USD', amount: tipAmount.toFixed(2) }
+      },
+      { idempotencyKey }
+    ));
+  };
+
+  const startOver = () => {
+    invoice.reset();
+    setCustomAmount('');
+    setNote('');
+  };
+
+  return (
+    <div className="bg-card/95 backdrop-blur-sm border border-border rounded-xl p-6 hover:shadow-lg transition-all duration-300 transition-theme">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-2">
+          <div className="text-2xl">🫙</div>
+          <div>
+            <h3 className="text-lg font-bold text-card-foreground">Lightning Tip Jar</h3>
+            <p className="text-sm text-muted-foreground">Help keep these tools free</p>
+          </div>
+        </div>
+        {(status === 'idle' || status === 'creating') && (
+          <div className="flex gap-1">
+            {(Object.keys(TIP_PRESETS) as TipUnit[]).map((option) => (
+              <button
+                key={option}
+                onClick={() => selectUnit(option)}
+                disabled={status === 'creating'}
+                className={`px-3 py-1 rounded-full text-xs font-medium transition-all duration-300 ${
+                  unit === option
+                    ? 'bg-primary text-primary-foreground'
+                    : 'bg-muted text-muted-foreground hover:bg-accent hover:text-accent-foreground'
+                }`}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {(status === 'idle' || status === 'creating') && (
+        <div className="space-y-3">
+          <div className="grid grid-cols-3 gap-2">
+            {presets.map((preset) => (
+              <button
+                key={preset}
+                onClick={() => {
+                  setAmount(preset);
+                  setCustomAmount('');
+                }}
+                disabled={status === 'creating'}
+                className={`p-3 rounded-lg text-sm font-semibold transition-all duration-300 ${
+                  !customAmount && amount === preset
+                    ? 'bg-primary text-primary-foreground'
+                    : 'bg-muted text-muted-foreground hover:bg-accent hover:text-accent-foreground'
+                }`}
+              >
+                {formatTip(preset)}
+              </button>
+            ))}
+          </div>
+          <input
+            type="number"
+            inputMode={unit === 'sats' ? 'numeric' : 'decimal'}
+            min={unit === 'sats' ? 1 : 0.01}
+            max={maxTip}
+            step={unit === 'sats' ? 1 : 0.01}
+            placeholder={`Custom amount (${unit})`}
+            value={customAmount}
+            onChange={(e) => setCustomAmount(e.target.value)}
+            disabled={status === 'creating'}
+            className="w-full p-2 rounded-lg border border-border bg-background text-foreground focus:ring-2 focus:ring-primary focus:border-transparent transition-theme"
+          />
+          <input
+            type="text"
+            placeholder="Add a note (optional)"
+            maxLength={TIP_NOTE_MAX_LENGTH}
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            disabled={status === 'creating'}
+            className="w-full p-2 rounded-lg border border-border bg-background text-foreground focus:ring-2 focus:ring-primary focus:border-transparent transition-theme"
+          />
+          {customAmount && !isValidTip && (
+            <p className="text-xs text-red-500">
+              Enter {unit === 'sats' ? 'a whole number of sats' : 'an amount'} up to {formatTip(maxTip)}.
+            </p>
+          )}
+          <button
+            onClick={sendTip}
+            disabled={status === 'creating' || !isValidTip}
+            className="w-full bg-gradient-bitcoin text-primary-foreground px-6 py-3 rounded-full font-bold hover:scale-105 transition-all duration-300 shadow-bitcoin disabled:opacity-50 disabled:hover:scale-100"
+          >
+            {status === 'creating' ? 'Creating Invoice...' : isValidTip ? `Tip ${formatTip(tipAmount)} with Lightning` : 'Tip with Lightning'}
+          </button>
+        </div>
+      )}
+
+      {status === 'awaiting' && <LightningQuotePanel invoice={invoice} summary={`Tip • ${formatTip(tipAmount)}`} />}
+
+      {status === 'paid' && (
+        <div className="text-center space-y-3 py-4">
+          <div className="text-5xl">🧡</div>
+          <div className="text-lg font-bold text-card-foreground">Thank you!</div>
+          <p className="text-sm text-muted-foreground">
+            Your {formatTip(tipAmount)} tip keeps Tahoe Bitcoin&apos;s tools and guides free for everyone.
+          </p>
+          <a
+            href={`/receipts/${invoice.invoiceId}`}
+            className="block text-xs text-muted-foreground hover:text-primary transition-colors"
+          >
+            View receipt
+          </a>
+          <button
+            onClick={startOver}
+            className="text-sm text-primary hover:text-primary/80 transition-colors font-semibold"
+          >
+            Send Another Tip
+          </button>
+        </div>
+      )}
+
+      {status === 'error' && <LightningErrorPanel invoice={invoice} />}
+    </div>
+  );
+};
+
 // Contact Section Component
 const ContactSection = () => (
   <section id="contact" className="py-20 lg:py-32 bg-gradient-to-br from-muted/10 via-background to-primary/5 relative overflow-hidden transition-theme">
@@ -1482,7 +2206,14 @@ const ContactSection = () => (
             </AnimatedSection>
           </div>
 
+          <AnimatedSection delay={800}>
+            <div className="max-w-xl mx-auto mb-10">
+              <LightningCheckout />
+            </div>
+          </AnimatedSection>
+
           <AnimatedSection delay={900}>
+            <div className="text-sm text-muted-foreground mb-4">Prefer to talk first?</div>
             <a
               href="mailto:hello@tahoebitcoin.com"
               className="inline-flex items-center px-12 py-4 bg-gradient-sunset text-white rounded-full font-bold text-lg hover:scale-105 hover:shadow-2xl transition-all duration-300 shadow-bitcoin group"
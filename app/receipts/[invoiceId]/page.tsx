@@ -0,0 +1,136 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { isSiteInvoice } from '@/lib/strike/invoices';
+import { getStrikeServerClient } from '@/lib/strike/server';
+import { findSettlementQuote, getRecordedQuotes, settleInvoice } from '@/lib/strike/settlement';
+import { getInvoicePaidAtFromWebhooks } from '@/lib/strike/webhooks';
+import type { InvoiceState } from '@/lib/strike/types';
+import PrintButton from './print-button';
+
+export const metadata: Metadata = {
+  title: 'Receipt',
+  robots: {
+    index: false,
+    follow: false,
+  },
+};
+
+interface ReceiptPageProps {
+  params: Promise<{ invoiceId: string }>;
+}
+
+const INVOICE_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const STATE_LABELS: Record<InvoiceState, string> = {
+  PAID: 'Paid',
+  PENDING: 'Payment pending',
+  UNPAID: 'Awaiting payment',
+  CANCELLED: 'Cancelled',
+};
+
+// Receipts are for local clients, so times are shown in Tahoe's time zone
+const formatDateTime = (iso: string) =>
+  new Date(iso).toLocaleString('en-US', {
+    timeZone: 'America/Los_Angeles',
+    dateStyle: 'medium',
+    timeStyle: 'short',
+  }) + ' PT';
+
+const formatUsd = (value: number) =>
+  value.toLocaleString('en-US', { style: 'currency', currency: 'USD' });
+
+const loadReceipt = async (invoiceId: string) => {
+  try {
+    // Other invoices on the Strike account are none of the visitor's business
+    if (!(await isSiteInvoice(invoiceId))) return null;
+
+    const result = await getStrikeServerClient().getInvoice(invoiceId);
+    if (!result.ok) {
+      return result.error.code === 'NOT_FOUND' ? null : { error: result.error.message };
+    }
+
+    const invoice = result.data;
+    const paidAt = invoice.state === 'PAID' ? await getInvoicePaidAtFromWebhooks(invoiceId) : null;
+    const quote = findSettlementQuote(await getRecordedQuotes(), invoiceId, paidAt);
+
+    return { invoice, paidAt, settlement: settleInvoice(invoice, quote) };
+  } catch (error) {
+    console.error('Receipt Error:', error);
+    return { error: 'Receipts are temporarily unavailable. Please try again later.' };
+  }
+};
+
+export default async function ReceiptPage({ params }: ReceiptPageProps) {
+  const { invoiceId } = await params;
+  if (!INVOICE_ID_PATTERN.test(invoiceId)) notFound();
+
+  const receipt = await loadReceipt(invoiceId);
+  if (!receipt) notFound();
+
+  if ('error' in receipt) {
+    return (
+      <main className="min-h-screen flex items-center justify-center px-4">
+        <p className="text-muted-foreground">{receipt.error}</p>
+      </main>
+    );
+  }
+
+  const { invoice, paidAt, settlement } = receipt;
+  const isPaid = invoice.state === 'PAID';
+
+  const rows: [string, string][] = [
+    ['Invoice ID', invoice.invoiceId],
+    ['Status', STATE_LABELS[invoice.state] ?? invoice.state],
+    ['Description', invoice.description || '—'],
+    ['Amount (USD)', settlement.usd !== null ? formatUsd(settlement.usd) : '—'],
+    ['Amount (sats)', settlement.sats !== null ? `${settlement.sats.toLocaleString('en-US')} sats` : '—'],
+    ['BTC/USD rate', settlement.btcUsdRate !== null ? formatUsd(settlement.btcUsdRate) : '—'],
+    ['Issued', formatDateTime(invoice.created)],
+    ['Paid', paidAt ? formatDateTime(paidAt) : isPaid ? 'Time not recorded' : '—'],
+  ];
+
+  return (
+    <main className="min-h-screen px-4 py-12 bg-gradient-to-br from-background via-muted/30 to-background transition-theme print:p-0">
+      <div className="max-w-2xl mx-auto bg-card/95 backdrop-blur-sm border border-border rounded-xl p-8 shadow-bitcoin transition-theme print:border-none print:shadow-none">
+        <div className="flex items-start justify-between mb-8">
+          <div>
+            <div className="text-xl font-bold">
+              <span className="text-accent">Tahoe</span> <span className="text-gradient-bitcoin">Bitcoin</span> Strategy
+            </div>
+            <div className="text-sm text-muted-foreground">Reno / Tahoe • hello@tahoebitcoin.com</div>
+          </div>
+          <div className="text-right">
+            <h1 className="text-2xl font-bold text-card-foreground">{isPaid ? 'Receipt' : 'Invoice'}</h1>
+            <div className={`text-sm font-semibold ${isPaid ? 'text-green-500' : 'text-muted-foreground'}`}>
+              {STATE_LABELS[invoice.state] ?? invoice.state}
+            </div>
+          </div>
+        </div>
+
+        <table className="w-full text-sm mb-8">
+          <tbody>
+            {rows.map(([label, value]) => (
+              <tr key={label} className="border-b border-border">
+                <th className="py-3 pr-4 text-left font-medium text-muted-foreground align-top whitespace-nowrap">{label}</th>
+                <td className="py-3 text-card-foreground break-all">{value}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <p className="text-xs text-muted-foreground mb-8">
+          Paid over the Bitcoin Lightning Network via Strike. USD amounts use the exchange rate of the quote that was paid.
+          Keep this receipt for your records.
+        </p>
+
+        <div className="flex items-center justify-between print:hidden">
+          <Link href="/" className="text-sm text-primary hover:text-primary/80 transition-colors font-semibold">
+            ← Back to Tahoe Bitcoin
+          </Link>
+          <PrintButton />
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,13 @@
+'use client';
+
+// Opens the browser's print dialog, which also offers "Save as PDF"
+export default function PrintButton() {
+  return (
+    <button
+      onClick={() => window.print()}
+      className="px-6 py-2 rounded-full bg-gradient-bitcoin text-primary-foreground font-semibold hover:scale-105 transition-all duration-300 shadow-bitcoin print:hidden"
+    >
+      Print / Save as PDF
+    </button>
+  );
+}
@@ -0,0 +1,8 @@
+// Runs once when the server starts
+export async function register() {
+  // Background jobs need Node APIs; skip the edge runtime
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { startPriceHistorySync } = await import('@/lib/price/history');
+    startPriceHistorySync();
+  }
+}
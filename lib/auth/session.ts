@@ -0,0 +1,123 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { NextResponse, type NextRequest } from 'next/server';
+import { isValidTotpSecret, verifyTotp } from './totp';
+
+// Signed, HTTP-only operator sessions.
+// A session cookie is `<base64url payload>.<base64url HMAC-SHA256>` keyed by
+// ADMIN_SESSION_SECRET, so it can be verified without any server-side store.
+
+export type AccessRole = 'public' | 'operator';
+
+export interface Session {
+  role: AccessRole;
+  issuedAt: number;
+  expiresAt: number;
+}
+
+export const SESSION_COOKIE = 'tahoe_admin_session';
+const SESSION_TTL_SECONDS = 60 * 60 * 8;
+
+const MIN_SECRET_LENGTH = 32;
+
+const PUBLIC_SESSION: Session = { role: 'public', issuedAt: 0, expiresAt: 0 };
+
+const hasSessionSecret = () => (process.env.ADMIN_SESSION_SECRET?.length ?? 0) >= MIN_SECRET_LENGTH;
+
+const getSecret = () => {
+  if (!hasSessionSecret()) {
+    throw new Error(`ADMIN_SESSION_SECRET must be set to at least ${MIN_SECRET_LENGTH} characters`);
+  }
+  return process.env.ADMIN_SESSION_SECRET as string;
+};
+
+const sign = (payload: string) =>
+  createHmac('sha256', getSecret()).update(payload).digest('base64url');
+
+const safeEqual = (a: string, b: string) => {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+};
+
+export const isAdminLoginConfigured = () => {
+  const totpSecret = process.env.ADMIN_TOTP_SECRET;
+  if (totpSecret && !isValidTotpSecret(totpSecret)) return false;
+  return hasSessionSecret() && Boolean(process.env.ADMIN_PASSPHRASE || totpSecret);
+};
+
+// Checks a passphrase and/or TOTP code against whichever factors are configured
+export const verifyOperatorCredentials = ({ passphrase, code }: { passphrase?: string; code?: string }) => {
+  const expectedPassphrase = process.env.ADMIN_PASSPHRASE;
+  const totpSecret = process.env.ADMIN_TOTP_SECRET;
+
+  if (!expectedPassphrase && !totpSecret) return false;
+  if (expectedPassphrase && !(passphrase && safeEqual(passphrase, expectedPassphrase))) return false;
+  if (totpSecret && !(code && isValidTotpSecret(totpSecret) && verifyTotp(totpSecret, code))) return false;
+
+  return true;
+};
+
+export const createSessionToken = (role: AccessRole = 'operator', now = Date.now()) => {
+  const session: Session = {
+    role,
+    issuedAt: now,
+    expiresAt: now + SESSION_TTL_SECONDS * 1000,
+  };
+  const payload = Buffer.from(JSON.stringify(session)).toString('base64url');
+  return `${payload}.${sign(payload)}`;
+};
+
+export const verifySessionToken = (token: string | undefined, now = Date.now()): Session | null => {
+  if (!token) return null;
+
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature) return null;
+
+  try {
+    if (!safeEqual(signature, sign(payload))) return null;
+    const session = JSON.parse(Buffer.from(payload, 'base64url').toString()) as Session;
+    if (typeof session.expiresAt !== 'number' || session.expiresAt <= now) return null;
+    return session;
+  } catch {
+    return null;
+  }
+};
+
+// Resolves the caller's session, falling back to an anonymous public visitor
+export const getSession = (request: NextRequest): Session => {
+  if (!hasSessionSecret()) return PUBLIC_SESSION;
+  return verifySessionToken(request.cookies.get(SESSION_COOKIE)?.value) ?? PUBLIC_SESSION;
+};
+
+export const hasRole = (session: Session, required: AccessRole) =>
+  required === 'public' || session.role === required;
+
+// For operator-only routes: a 401 response, or null when the caller may proceed
+export const requireOperator = (request: NextRequest) => {
+  if (hasRole(getSession(request), 'operator')) return null;
+
+  return NextResponse.json(
+    { error: 'Operator login required' },
+    { status: 401 }
+  );
+};
+
+export const setSessionCookie = (response: NextResponse, token: string) => {
+  response.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict',
+    path: '/',
+    maxAge: SESSION_TTL_SECONDS,
+  });
+};
+
+export const clearSessionCookie = (response: NextResponse) => {
+  response.cookies.set(SESSION_COOKIE, '', {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict',
+    path: '/',
+    maxAge: 0,
+  });
+};
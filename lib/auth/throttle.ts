@@ -0,0 +1,98 @@
+import { appendRecord } from '@/lib/storage/jsonl';
+
+// Brute-force protection for the operator login. Each IP gets a few failed
+// attempts, then a lockout that doubles with every further failure. A second,
+// site-wide counter slows every login down once failures pile up across many
+// addresses. It only delays: refusing logins site-wide would let anyone lock
+// the operator out.
+
+const LOGIN_AUDIT_FILE = 'admin-login-audit.jsonl';
+const LOGIN_AUDIT_MAX_BYTES = 1024 * 1024;
+
+interface FailureLimit {
+  // Failures allowed before the first lockout
+  freeFailures: number;
+  baseLockoutMs: number;
+  maxLockoutMs: number;
+  // Failures are forgotten after this long without another one
+  windowMs: number;
+}
+
+const PER_IP_LIMIT: FailureLimit = {
+  freeFailures: 5,
+  baseLockoutMs: 30_000,
+  maxLockoutMs: 60 * 60_000,
+  windowMs: 24 * 60 * 60_000,
+};
+
+const GLOBAL_SLOWDOWN = {
+  freeFailures: 50,
+  baseDelayMs: 250,
+  maxDelayMs: 5_000,
+  windowMs: 60 * 60_000,
+};
+
+interface FailureRecord {
+  failures: number;
+  lastFailureAt: number;
+  lockedUntil: number;
+}
+
+// Above this many tracked IPs, records past their window are dropped
+const MAX_TRACKED_IPS = 10000;
+
+const failuresByIp = new Map<string, FailureRecord>();
+let globalFailures = { failures: 0, lastFailureAt: 0 };
+
+const isExpired = (record: FailureRecord, limit: FailureLimit, now: number) =>
+  now - record.lastFailureAt > limit.windowMs && now >= record.lockedUntil;
+
+const addFailure = (record: FailureRecord | undefined, limit: FailureLimit, now: number): FailureRecord => {
+  const failures = record && !isExpired(record, limit, now) ? record.failures + 1 : 1;
+  const excess = failures - limit.freeFailures;
+  const lockoutMs = excess > 0 ? Math.min(limit.baseLockoutMs * 2 ** (excess - 1), limit.maxLockoutMs) : 0;
+  return { failures, lastFailureAt: now, lockedUntil: now + lockoutMs };
+};
+
+const prune = (now: number) => {
+  for (const [ip, record] of failuresByIp) {
+    if (isExpired(record, PER_IP_LIMIT, now)) failuresByIp.delete(ip);
+  }
+};
+
+// Seconds until `ip` may try again, or 0 when it may try now
+export const getLoginLockout = (ip: string, now = Date.now()) => {
+  const lockedUntil = failuresByIp.get(ip)?.lockedUntil ?? 0;
+  return lockedUntil > now ? Math.ceil((lockedUntil - now) / 1000) : 0;
+};
+
+// Milliseconds every login waits before its credentials are checked
+export const getLoginDelay = (now = Date.now()) => {
+  if (now - globalFailures.lastFailureAt > GLOBAL_SLOWDOWN.windowMs) return 0;
+  const excess = globalFailures.failures - GLOBAL_SLOWDOWN.freeFailures;
+  return excess > 0 ? Math.min(GLOBAL_SLOWDOWN.baseDelayMs * 2 ** (excess - 1), GLOBAL_SLOWDOWN.maxDelayMs) : 0;
+};
+
+export const recordLoginFailure = async (ip: string, now = Date.now()) => {
+  if (!failuresByIp.has(ip) && failuresByIp.size >= MAX_TRACKED_IPS) prune(now);
+  const record = addFailure(failuresByIp.get(ip), PER_IP_LIMIT, now);
+  failuresByIp.set(ip, record);
+  const globalExpired = now - globalFailures.lastFailureAt > GLOBAL_SLOWDOWN.windowMs;
+  globalFailures = { failures: globalExpired ? 1 : globalFailures.failures + 1, lastFailureAt: now };
+
+  try {
+    await appendRecord(LOGIN_AUDIT_FILE, {
+      timestamp: new Date(now).toISOString(),
+      ip,
+      failures: record.failures,
+      lockedUntil: record.lockedUntil > now ? new Date(record.lockedUntil).toISOString() : null,
+    }, { maxBytes: LOGIN_AUDIT_MAX_BYTES });
+  } catch (error) {
+    console.error('Admin login audit write failed:', error);
+  }
+};
+
+// A successful login clears its IP's failures; the site-wide count only expires
+export const clearLoginFailures = (ip: string) => {
+  failuresByIp.delete(ip);
+};
@@ -0,0 +1,91 @@
+import dataset from './home-prices.json';
+
+// Median home prices for the Sierra markets behind the BTC/HOME display
+// modes. The figures live in `home-prices.json`: to update them, add a price
+// to the market (or a new market), bump `version` and `updated`, and every
+// widget picks the change up without code changes. A figure without a known
+// source and period stays undated (`asOf` and `source` null) and is labelled
+// that way; never fill those in by guesswork.
+
+export interface HomePrice {
+  // Date the median was measured for, `YYYY-MM-DD`, or null when unknown
+  asOf: string | null;
+  medianPrice: number;
+  // Who published the median, or null when unknown
+  source: string | null;
+}
+
+export interface HousingMarket {
+  id: string;
+  name: string;
+  state: string;
+  // Oldest first
+  prices: HomePrice[];
+}
+
+export interface HousingDataset {
+  version: number;
+  updated: string;
+  markets: HousingMarket[];
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Checked on load so a bad edit fails the build instead of showing wrong ratios
+const validateDataset = (data: HousingDataset) => {
+  const ids = new Set<string>();
+  for (const market of data.markets) {
+    if (!/^[a-z0-9-]+$/.test(market.id) || ids.has(market.id)) {
+      throw new Error(`Housing dataset: invalid or duplicate market id "${market.id}"`);
+    }
+    ids.add(market.id);
+
+    if (market.prices.length === 0) {
+      throw new Error(`Housing dataset: ${market.id} has no prices`);
+    }
+    market.prices.forEach((price, index) => {
+      if (!(price.medianPrice > 0)) {
+        throw new Error(`Housing dataset: ${market.id} has a median that is not a positive number`);
+      }
+      if (price.asOf === null) {
+        // Undated figures can't be ordered against others
+        if (market.prices.length > 1) {
+          throw new Error(`Housing dataset: ${market.id} mixes an undated median with other prices`);
+        }
+        return;
+      }
+      const previous = market.prices[index - 1]?.asOf;
+      if (!DATE_PATTERN.test(price.asOf) || (previous && price.asOf <= previous)) {
+        throw new Error(`Housing dataset: ${market.id} prices must have increasing YYYY-MM-DD dates`);
+      }
+      if (!price.source) {
+        throw new Error(`Housing dataset: ${market.id} ${price.asOf} needs a source`);
+      }
+    });
+  }
+  return data;
+};
+
+export const HOUSING_DATASET: HousingDataset = validateDataset(dataset);
+
+export const HOUSING_MARKETS = HOUSING_DATASET.markets;
+
+export const getHousingMarket = (id: string) => HOUSING_MARKETS.find(market => market.id === id) ?? null;
+
+export const getLatestHomePrice = (market: HousingMarket) => market.prices[market.prices.length - 1];
+
+export interface DatedHomePrice extends HomePrice {
+  asOf: string;
+  source: string;
+}
+
+// Medians with a known date and source, oldest first; only these can go on a timeline
+export const getDatedHomePrices = (market: HousingMarket) =>
+  market.prices.filter((price): price is DatedHomePrice => price.asOf !== null && price.source !== null);
+
+// The median in effect at `timestamp`: the latest one measured on or before
+// that day, or null before the first one
+export const getHomePriceAt = (prices: DatedHomePrice[], timestamp: number) => {
+  const day = new Date(timestamp).toISOString().slice(0, 10);
+  return prices.findLast(price => price.asOf <= day) ?? null;
+};
@@ -0,0 +1,89 @@
+import { createHash } from 'crypto';
+import type { NextRequest } from 'next/server';
+import { appendRecord } from '@/lib/storage/jsonl';
+
+// LNURL-pay (LUD-06) behind Lightning Addresses (LUD-16), with payer comments (LUD-12).
+// A wallet resolves `name@domain` to `/.well-known/lnurlp/<name>`, then calls the
+// callback with an amount in millisatoshis. The invoice must commit to the exact
+// metadata string through its description hash, so both steps rebuild it the same way.
+
+const PAYMENTS_FILE = 'lnurl-payments.jsonl';
+
+// Web wallets fetch LNURL endpoints cross-origin
+export const LNURL_HEADERS = { 'Access-Control-Allow-Origin': '*' };
+
+export interface LnurlPayParams {
+  tag: 'payRequest';
+  callback: string;
+  minSendable: number;
+  maxSendable: number;
+  metadata: string;
+  commentAllowed?: number;
+}
+
+export interface LnurlPaymentRecord {
+  receiveRequestId: string;
+  username: string;
+  amountMsat: number;
+  comment: string | null;
+  createdAt: string;
+}
+
+// Usernames that resolve to a Lightning Address, e.g. `hello,tips`
+export const getLnurlUsernames = () =>
+  (process.env.LNURL_USERNAMES || 'hello')
+    .split(',')
+    .map(name => name.trim().toLowerCase())
+    .filter(Boolean);
+
+export const isLnurlUsername = (name: string) => getLnurlUsernames().includes(name.toLowerCase());
+
+// Sendable range in millisatoshis; Strike invoices are whole sats, so both ends are too
+export const getSendableRangeMsat = () => ({
+  min: Number(process.env.LNURL_MIN_SENDABLE_SATS || 1) * 1000,
+  max: Number(process.env.LNURL_MAX_SENDABLE_SATS || 1_000_000) * 1000,
+});
+
+// Longest comment accepted from a payer; 0 disables comments
+export const getCommentAllowed = () => Number(process.env.LNURL_COMMENT_MAX_LENGTH ?? 140);
+
+// Public origin wallets should call back to. LNURL_DOMAIN pins it behind a proxy.
+export const getLnurlOrigin = (request: NextRequest) =>
+  process.env.LNURL_DOMAIN ? `https://${process.env.LNURL_DOMAIN}` : request.nextUrl.origin;
+
+export const buildLnurlMetadata = (username: string, origin: string) => {
+  const identifier = `${username.toLowerCase()}@${new URL(origin).host}`;
+  return JSON.stringify([
+    ['text/plain', `Payment to ${identifier}`],
+    ['text/identifier', identifier],
+  ]);
+};
+
+export const hashLnurlMetadata = (metadata: string) =>
+  createHash('sha256').update(metadata, 'utf8').digest('hex');
+
+export const buildPayParams = (username: string, origin: string): LnurlPayParams => {
+  const { min, max } = getSendableRangeMsat();
+  const commentAllowed = getCommentAllowed();
+
+  return {
+    tag: 'payRequest',
+    callback: `${origin}/api/lnurlp/${encodeURIComponent(username.toLowerCase())}/callback`,
+    minSendable: min,
+    maxSendable: max,
+    metadata: buildLnurlMetadata(username, origin),
+    ...(commentAllowed > 0 && { commentAllowed }),
+  };
+};
+
+// LNURL error responses are `{ status: 'ERROR', reason }` rather than `{ error }`
+export const lnurlError = (reason: string) => ({ status: 'ERROR' as const, reason });
+
+// Comments can't go in the invoice (it only carries the metadata hash), so keep them here
+export const recordLnurlPayment = async (payment: LnurlPaymentRecord) => {
+  try {
+    await appendRecord(PAYMENTS_FILE, payment);
+  } catch (error) {
+    console.error('LNURL Payment Record Error:', error);
+  }
+};
@@ -0,0 +1,43 @@
+// Visitor preferences kept in localStorage and shared by every widget on the
+// page. Each preference is an external store for `useSyncExternalStore`, so
+// changing it in one widget updates the others.
+
+const STORAGE_PREFIX = 'tahoe:';
+
+export const createPreference = <T extends string>(key: string, fallback: T, isValid: (value: string) => value is T) => {
+  const storageKey = `${STORAGE_PREFIX}${key}`;
+  const listeners = new Set<() => void>();
+  let value: T | null = null;
+
+  const read = (): T => {
+    if (value === null) {
+      let stored: string | null = null;
+      try {
+        stored = window.localStorage.getItem(storageKey);
+      } catch {
+        // Storage can be unavailable, e.g. in private browsing
+      }
+      value = stored !== null && isValid(stored) ? stored : fallback;
+    }
+    return value;
+  };
+
+  return {
+    subscribe: (listener: () => void) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    get: read,
+    // Server renders and hydration always start from the fallback
+    getServer: () => fallback,
+    set: (next: T) => {
+      value = next;
+      try {
+        window.localStorage.setItem(storageKey, next);
+      } catch {
+        // The choice still applies for this visit
+      }
+      listeners.forEach(listener => listener());
+    },
+  };
+};
@@ -0,0 +1,132 @@
+import { getRetryDelay, readCache, writeCache } from '@/lib/resources';
+import type { AggregatedPrice } from './feed';
+import type { PriceCurrency } from './currencies';
+
+// Browser-side subscriptions to `/api/price/stream`. However many widgets
+// show a currency, the page holds one event stream for it; the stream closes
+// when the last subscriber for that currency leaves. The last price received
+// is kept in localStorage and shown, marked stale, until the stream delivers.
+
+// Without a price event for this long the shown price counts as stale
+const STALE_AFTER_MS = 60_000;
+
+export type PriceConnection = 'connecting' | 'open' | 'reconnecting';
+
+export interface PriceSnapshot {
+  price: AggregatedPrice | null;
+  error: string | null;
+  connection: PriceConnection;
+  // The last price is too old to call live (or no source has a fresh one)
+  stale: boolean;
+  // `price` is the stored copy from an earlier visit
+  fallback: boolean;
+}
+
+const EMPTY_SNAPSHOT: PriceSnapshot = { price: null, error: null, connection: 'connecting', stale: false, fallback: false };
+
+interface PriceFeed {
+  snapshot: PriceSnapshot;
+  listeners: Set<() => void>;
+  source: EventSource | null;
+  // Failed connection attempts since the last price arrived
+  attempt: number;
+  staleTimer: ReturnType<typeof setTimeout> | null;
+  reconnectTimer: ReturnType<typeof setTimeout> | null;
+}
+
+const feeds = new Map<PriceCurrency, PriceFeed>();
+
+const cacheKey = (currency: PriceCurrency) => `price:${currency}`;
+
+const getFeed = (currency: PriceCurrency) => {
+  let feed = feeds.get(currency);
+  if (!feed) {
+    const cached = readCache<AggregatedPrice>(cacheKey(currency));
+    feed = {
+      snapshot: cached ? { ...EMPTY_SNAPSHOT, price: cached.data, stale: true, fallback: true } : EMPTY_SNAPSHOT,
+      listeners: new Set(),
+      source: null,
+      attempt: 0,
+      staleTimer: null,
+      reconnectTimer: null,
+    };
+    feeds.set(currency, feed);
+  }
+  return feed;
+};
+
+const publish = (feed: PriceFeed, changes: Partial<PriceSnapshot>) => {
+  feed.snapshot = { ...feed.snapshot, ...changes };
+  feed.listeners.forEach(listener => listener());
+};
+
+const clearTimers = (feed: PriceFeed) => {
+  if (feed.staleTimer) clearTimeout(feed.staleTimer);
+  if (feed.reconnectTimer) clearTimeout(feed.reconnectTimer);
+  feed.staleTimer = null;
+  feed.reconnectTimer = null;
+};
+
+const connect = (currency: PriceCurrency) => {
+  const feed = getFeed(currency);
+  const source = new EventSource(`/api/price/stream?currency=${currency}`);
+  feed.source = source;
+
+  source.onopen = () => publish(feed, { connection: 'open', error: null });
+
+  source.addEventListener('price', event => {
+    // Measured from arrival rather than `asOf`, so a skewed visitor clock can't mark it stale
+    if (feed.staleTimer) clearTimeout(feed.staleTimer);
+    feed.staleTimer = setTimeout(() => publish(feed, { stale: true }), STALE_AFTER_MS);
+    const price: AggregatedPrice = JSON.parse(event.data);
+    writeCache(cacheKey(currency), { data: price, asOf: price.asOf });
+    feed.attempt = 0;
+    publish(feed, { price, error: null, connection: 'open', stale: false, fallback: false });
+  });
+
+  source.addEventListener('unavailable', () => {
+    // Keep showing the last price, marked stale
+    publish(feed, { stale: true, error: 'No price source is currently available' });
+  });
+
+  source.onerror = () => {
+    // Reconnect with backoff rather than the browser's fixed retry interval
+    source.close();
+    feed.source = null;
+    feed.reconnectTimer = setTimeout(() => connect(currency), getRetryDelay(feed.attempt++));
+    publish(feed, { connection: 'reconnecting', error: 'Lost connection to the price feed' });
+  };
+};
+
+export const subscribeToPrice = (currency: PriceCurrency, listener: () => void) => {
+  const feed = getFeed(currency);
+  feed.listeners.add(listener);
+  if (feed.listeners.size === 1) {
+    connect(currency);
+  }
+
+  return () => {
+    feed.listeners.delete(listener);
+    if (feed.listeners.size === 0) {
+      feed.source?.close();
+      feed.source = null;
+      clearTimers(feed);
+      feed.snapshot = { ...feed.snapshot, connection: 'connecting' };
+    }
+  };
+};
+
+export const getPriceSnapshot = (currency: PriceCurrency) => getFeed(currency).snapshot;
+
+export const getServerPriceSnapshot = () => EMPTY_SNAPSHOT;
+
+// Reconnect now rather than waiting for the next backoff step
+export const reconnectPrice = (currency: PriceCurrency) => {
+  const feed = getFeed(currency);
+  if (feed.listeners.size === 0) return;
+  feed.source?.close();
+  if (feed.reconnectTimer) clearTimeout(feed.reconnectTimer);
+  feed.reconnectTimer = null;
+  publish(feed, { connection: 'connecting' });
+  connect(currency);
+};
@@ -0,0 +1,23 @@
+// Fiat currencies the price feed publishes, and how each is formatted.
+// Amounts are formatted the way the currency's home market writes them,
+// e.g. `1.234,56 €` for EUR and `￥1,235` for JPY.
+
+export const PRICE_CURRENCIES = ['USD', 'EUR', 'GBP', 'CAD', 'MXN', 'JPY', 'AUD', 'CHF'] as const;
+export type PriceCurrency = typeof PRICE_CURRENCIES[number];
+
+export const CURRENCY_LOCALES: Record<PriceCurrency, string> = {
+  USD: 'en-US',
+  EUR: 'de-DE',
+  GBP: 'en-GB',
+  CAD: 'en-CA',
+  MXN: 'es-MX',
+  JPY: 'ja-JP',
+  AUD: 'en-AU',
+  CHF: 'de-CH',
+};
+
+export const isPriceCurrency = (value: string): value is PriceCurrency =>
+  (PRICE_CURRENCIES as readonly string[]).includes(value);
+
+export const formatFiat = (value: number, currency: PriceCurrency, options: Intl.NumberFormatOptions = {}) =>
+  new Intl.NumberFormat(CURRENCY_LOCALES[currency], { style: 'currency', currency, ...options }).format(value);
@@ -0,0 +1,148 @@
+import { getStrikeServerClient } from '@/lib/strike/server';
+import { PRICE_CURRENCIES, type PriceCurrency } from './currencies';
+
+// Aggregated BTC spot price from several independent sources.
+// Each source is polled at most once per refresh interval; the published
+// price is the median of the sources that answered recently, so one slow or
+// wrong provider can't move the number on its own.
+
+export type PriceSourceName = 'blockchain.info' | 'coingecko' | 'strike';
+
+export interface PriceSourceQuote {
+  source: PriceSourceName;
+  price: number | null;
+  fetchedAt: string | null;
+  ageSeconds: number | null;
+  // Older than the staleness limit, or never fetched; excluded from the median
+  stale: boolean;
+  error?: string;
+}
+
+export interface AggregatedPrice {
+  currency: PriceCurrency;
+  price: number;
+  // Fetch time of the newest source used in the median
+  asOf: string;
+  sources: PriceSourceQuote[];
+}
+
+const REFRESH_INTERVAL_MS = 15_000;
+const SOURCE_TIMEOUT_MS = 5_000;
+// Source values older than this stop counting towards the median
+const MAX_SOURCE_AGE_MS = 5 * 60_000;
+
+type PriceTable = Partial<Record<string, number>>;
+
+const fetchJson = async (url: string) => {
+  const response = await fetch(url, {
+    cache: 'no-store',
+    headers: { accept: 'application/json' },
+    signal: AbortSignal.timeout(SOURCE_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`);
+  }
+  return response.json();
+};
+
+const SOURCES: Record<PriceSourceName, () => Promise<PriceTable>> = {
+  'blockchain.info': async () => {
+    const data: Record<string, { last?: number }> = await fetchJson('https://blockchain.info/ticker');
+    return Object.fromEntries(Object.entries(data).map(([currency, ticker]) => [currency, ticker.last]));
+  },
+
+  coingecko: async () => {
+    const currencies = PRICE_CURRENCIES.join(',').toLowerCase();
+    const data: { bitcoin?: Record<string, number> } = await fetchJson(
+      `https://api.coingecko.com/api/v3/simple/price?ids=bitcoin&vs_currencies=${currencies}`
+    );
+    return Object.fromEntries(
+      Object.entries(data.bitcoin ?? {}).map(([currency, price]) => [currency.toUpperCase(), price])
+    );
+  },
+
+  strike: async () => {
+    const result = await getStrikeServerClient().getTicker();
+    if (!result.ok) {
+      throw new Error(result.error.code);
+    }
+    return Object.fromEntries(
+      result.data
+        .filter(rate => rate.sourceCurrency === 'BTC')
+        .map(rate => [rate.targetCurrency, Number(rate.amount)])
+    );
+  },
+};
+
+interface SourceState {
+  prices: PriceTable | null;
+  fetchedAt: number | null;
+  error?: string;
+}
+
+const sourceStates = new Map<PriceSourceName, SourceState>();
+let lastRefresh = 0;
+let refreshing: Promise<void> | null = null;
+
+const refreshSource = async (name: PriceSourceName) => {
+  const previous = sourceStates.get(name) ?? { prices: null, fetchedAt: null };
+  try {
+    sourceStates.set(name, { prices: await SOURCES[name](), fetchedAt: Date.now() });
+  } catch (error) {
+    // Keep the last good values; they age out through MAX_SOURCE_AGE_MS
+    sourceStates.set(name, { ...previous, error: error instanceof Error ? error.message : 'Request failed' });
+  }
+};
+
+const refreshSources = async () => {
+  if (Date.now() - lastRefresh < REFRESH_INTERVAL_MS) return;
+
+  // Concurrent callers share one round of upstream requests
+  refreshing ??= Promise.all((Object.keys(SOURCES) as PriceSourceName[]).map(refreshSource))
+    .then(() => {
+      lastRefresh = Date.now();
+    })
+    .finally(() => {
+      refreshing = null;
+    });
+
+  await refreshing;
+};
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+// Null when no source has a fresh price in the currency
+export const getAggregatedPrice = async (currency: PriceCurrency = 'USD', now = Date.now()): Promise<AggregatedPrice | null> => {
+  await refreshSources();
+
+  const sources = (Object.keys(SOURCES) as PriceSourceName[]).map((source): PriceSourceQuote => {
+    const state = sourceStates.get(source);
+    const value = state?.prices?.[currency];
+    const price = typeof value === 'number' && value > 0 ? value : null;
+    const fetchedAt = state?.fetchedAt ?? null;
+    const ageMs = fetchedAt !== null ? now - fetchedAt : null;
+
+    return {
+      source,
+      price,
+      fetchedAt: fetchedAt !== null ? new Date(fetchedAt).toISOString() : null,
+      ageSeconds: ageMs !== null ? Math.max(0, Math.round(ageMs / 1000)) : null,
+      stale: price === null || ageMs === null || ageMs > MAX_SOURCE_AGE_MS,
+      ...(state?.error && { error: state.error }),
+    };
+  });
+
+  const fresh = sources.filter(source => !source.stale);
+  if (fresh.length === 0) return null;
+
+  return {
+    currency,
+    price: Math.round(median(fresh.map(source => source.price as number)) * 100) / 100,
+    asOf: fresh.map(source => source.fetchedAt as string).sort().at(-1) as string,
+    sources,
+  };
+};
@@ -0,0 +1,234 @@
+import { getModifiedTime, readRecords, writeRecords } from '@/lib/storage/jsonl';
+import { PRICE_CURRENCIES, type PriceCurrency } from './currencies';
+
+// Historical BTC prices stored on this server, per currency: one price a day
+// (since 2010 for USD) and one an hour for the last 90 days. A background job
+// started from `instrumentation.ts` tops the series up every hour, so charts
+// and calculators keep working from stored data while the upstream APIs are
+// down, and never need invented numbers.
+
+export type HistoryResolution = 'daily' | 'hourly';
+
+// [timestamp in ms, price]
+export type HistoryPoint = [number, number];
+
+interface HistoryRecord {
+  timestamp: number;
+  price: number;
+}
+
+const HOUR_MS = 3_600_000;
+const DAY_MS = 24 * HOUR_MS;
+const SYNC_INTERVAL_MS = HOUR_MS;
+const SOURCE_TIMEOUT_MS = 20_000;
+// CoinGecko's free API allows only a few calls a minute, and the live price
+// feed (`./feed.ts`) already polls it four times a minute
+const SERIES_SPACING_MS = 20_000;
+// After a 429, wait Retry-After or this doubling delay before trying the series again
+const RATE_LIMIT_BACKOFF_MS = 60_000;
+const RATE_LIMIT_MAX_BACKOFF_MS = 15 * 60_000;
+const RATE_LIMIT_MAX_ATTEMPTS = 3;
+const HOURLY_RETENTION_DAYS = 90;
+// Longest request CoinGecko's free API answers with daily prices
+const COINGECKO_MAX_DAYS = 365;
+const DAILY_START = Date.UTC(2010, 0, 1);
+// Requests up to this many days are served from the hourly series
+export const HOURLY_MAX_DAYS = 7;
+// Longest range stored for each currency: USD reaches back to 2010, the
+// others only to CoinGecko's first year
+const USD_MAX_DAYS = 6000;
+
+export const getHistoryMaxDays = (currency: PriceCurrency) =>
+  currency === 'USD' ? USD_MAX_DAYS : COINGECKO_MAX_DAYS;
+
+const seriesFile = (currency: PriceCurrency, resolution: HistoryResolution) =>
+  `price-history-${currency}-${resolution}.jsonl`;
+
+interface CachedSeries {
+  modifiedAt: number | null;
+  points: Promise<HistoryPoint[]>;
+}
+
+const series = new Map<string, CachedSeries>();
+
+// The sync job and the route handlers can run in separate module instances,
+// so the file is the source of truth: the cache is re-read whenever it changes
+const loadSeries = async (currency: PriceCurrency, resolution: HistoryResolution) => {
+  const file = seriesFile(currency, resolution);
+  const modifiedAt = await getModifiedTime(file);
+  const cached = series.get(file);
+  if (cached && cached.modifiedAt === modifiedAt) return cached.points;
+
+  const entry: CachedSeries = {
+    modifiedAt,
+    points: readRecords<HistoryRecord>(file).then(records =>
+      records.map(record => [record.timestamp, record.price] as HistoryPoint)
+    ),
+  };
+  // A failed read is retried next time instead of being cached
+  entry.points.catch(() => {
+    if (series.get(file) === entry) series.delete(file);
+  });
+  series.set(file, entry);
+  return entry.points;
+};
+
+class RateLimitedError extends Error {
+  constructor(readonly retryAfterMs: number | null) {
+    super('HTTP 429');
+  }
+}
+
+// Retry-After is either seconds or an HTTP date
+const parseRetryAfter = (value: string | null) => {
+  if (!value) return null;
+  const ms = /^\d+$/.test(value) ? Number(value) * 1000 : Date.parse(value) - Date.now();
+  return Number.isFinite(ms) && ms > 0 ? ms : null;
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const fetchJson = async (url: string) => {
+  const response = await fetch(url, {
+    cache: 'no-store',
+    headers: { accept: 'application/json' },
+    signal: AbortSignal.timeout(SOURCE_TIMEOUT_MS),
+  });
+  if (response.status === 429) {
+    throw new RateLimitedError(parseRetryAfter(response.headers.get('retry-after')));
+  }
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`);
+  }
+  return response.json();
+};
+
+// CoinGecko answers 2-90 day requests with hourly prices
+const fetchCoinGecko = async (currency: PriceCurrency, days: number, resolution: HistoryResolution) => {
+  const interval = resolution === 'daily' ? '&interval=daily' : '';
+  const data: { prices?: HistoryPoint[] } = await fetchJson(
+    `https://api.coingecko.com/api/v3/coins/bitcoin/market_chart?vs_currency=${currency.toLowerCase()}&days=${days}${interval}`
+  );
+  return data.prices ?? [];
+};
+
+// The only free source reaching back to 2010, and only in USD
+const fetchBlockchainInfoDaily = async () => {
+  const data: { values?: { x: number; y: number }[] } = await fetchJson(
+    'https://api.blockchain.info/charts/market-price?timespan=all&sampled=false&format=json'
+  );
+  return (data.values ?? []).map(({ x, y }): HistoryPoint => [x * 1000, y]);
+};
+
+// Later points win where two share a day or hour
+const mergePoints = (existing: HistoryPoint[], incoming: HistoryPoint[], resolution: HistoryResolution, since: number) => {
+  const bucketMs = resolution === 'daily' ? DAY_MS : HOUR_MS;
+  const byBucket = new Map(existing.map(point => [point[0], point]));
+  for (const [timestamp, price] of incoming) {
+    if (!(price > 0)) continue;
+    const bucket = Math.floor(timestamp / bucketMs) * bucketMs;
+    byBucket.set(bucket, [bucket, price]);
+  }
+  return [...byBucket.values()].filter(([timestamp]) => timestamp >= since).sort((a, b) => a[0] - b[0]);
+};
+
+const syncSeries = async (currency: PriceCurrency, resolution: HistoryResolution, now: number) => {
+  const existing = await loadSeries(currency, resolution);
+  const last = existing.at(-1)?.[0];
+  const maxDays = resolution === 'daily' ? COINGECKO_MAX_DAYS : HOURLY_RETENTION_DAYS;
+  // Only ask for what is missing, at least two days so hourly stays hourly
+  const days = last ? Math.min(Math.max(Math.ceil((now - last) / DAY_MS) + 1, 2), maxDays) : maxDays;
+
+  const requests = [fetchCoinGecko(currency, days, resolution)];
+  // Retried every sync until the USD series reaches back to its start
+  if (resolution === 'daily' && currency === 'USD' && (existing[0]?.[0] ?? Infinity) > DAILY_START + 365 * DAY_MS) {
+    requests.unshift(fetchBlockchainInfoDaily());
+  }
+
+  const results = await Promise.allSettled(requests);
+  const incoming: HistoryPoint[] = [];
+  let rateLimited: RateLimitedError | null = null;
+  for (const result of results) {
+    if (result.status === 'fulfilled') {
+      incoming.push(...result.value);
+    } else if (result.reason instanceof RateLimitedError) {
+      // Honour the longest Retry-After when both sources refuse
+      if ((result.reason.retryAfterMs ?? 0) >= (rateLimited?.retryAfterMs ?? 0)) rateLimited = result.reason;
+    } else {
+      console.error(`Price History Sync Error (${currency} ${resolution}):`, result.reason);
+    }
+  }
+
+  if (incoming.length > 0) {
+    const since = resolution === 'daily' ? DAILY_START : now - HOURLY_RETENTION_DAYS * DAY_MS;
+    const merged = mergePoints(existing, incoming, resolution, since);
+    await writeRecords(seriesFile(currency, resolution), merged.map(([timestamp, price]) => ({ timestamp, price })));
+  }
+  // Whatever did arrive is stored; the caller backs off and tries the series again
+  if (rateLimited) throw rateLimited;
+};
+
+const syncSeriesWithBackoff = async (currency: PriceCurrency, resolution: HistoryResolution) => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await syncSeries(currency, resolution, Date.now());
+    } catch (error) {
+      if (!(error instanceof RateLimitedError) || attempt === RATE_LIMIT_MAX_ATTEMPTS) throw error;
+      await sleep(Math.min(
+        error.retryAfterMs ?? RATE_LIMIT_BACKOFF_MS * 2 ** (attempt - 1),
+        RATE_LIMIT_MAX_BACKOFF_MS
+      ));
+    }
+  }
+};
+
+let syncing: Promise<void> | null = null;
+
+// One series at a time, SERIES_SPACING_MS apart, so a full sync stays inside
+// the upstream rate limits; a rate-limited series is retried after a backoff
+export const syncPriceHistory = () => {
+  syncing ??= (async () => {
+    let first = true;
+    for (const currency of PRICE_CURRENCIES) {
+      for (const resolution of ['daily', 'hourly'] as const) {
+        if (!first) await sleep(SERIES_SPACING_MS);
+        first = false;
+        try {
+          await syncSeriesWithBackoff(currency, resolution);
+        } catch (error) {
+          console.error(`Price History Sync Error (${currency} ${resolution}):`, error);
+        }
+      }
+    }
+  })().finally(() => {
+    syncing = null;
+  });
+  return syncing;
+};
+
+let syncTimer: ReturnType<typeof setInterval> | null = null;
+
+export const startPriceHistorySync = () => {
+  if (syncTimer) return;
+  syncPriceHistory();
+  syncTimer = setInterval(syncPriceHistory, SYNC_INTERVAL_MS);
+};
+
+// The last `days` days, hourly for short ranges when hourly prices are stored
+export const getPriceHistory = async (currency: PriceCurrency, days: number, now = Date.now()) => {
+  const since = now - days * DAY_MS;
+  if (days <= HOURLY_MAX_DAYS) {
+    const hourly = (await loadSeries(currency, 'hourly')).filter(([timestamp]) => timestamp >= since);
+    if (hourly.length > 1) return { resolution: 'hourly' as const, prices: hourly };
+  }
+  const daily = (await loadSeries(currency, 'daily')).filter(([timestamp]) => timestamp >= since);
+  return { resolution: 'daily' as const, prices: daily };
+};
+
+// Stored daily prices for the given `YYYY-MM-DD` days; days without one are left out
+export const getDailyPrices = async (currency: PriceCurrency, days: string[]) => {
+  const wanted = new Set(days);
+  return (await loadSeries(currency, 'daily')).filter(([timestamp]) =>
+    wanted.has(new Date(timestamp).toISOString().slice(0, 10))
+  );
+};
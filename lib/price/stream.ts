@@ -0,0 +1,54 @@
+import { getAggregatedPrice, type AggregatedPrice } from './feed';
+import type { PriceCurrency } from './currencies';
+
+// One server-side price loop shared by every open `/api/price/stream`
+// connection. It only runs while someone is listening, and each tick pushes
+// the aggregated price to everyone watching that currency, so the number of
+// visitors never changes how often the upstream sources are asked.
+
+// Matches the aggregator's refresh interval; ticks also keep idle connections open
+const TICK_INTERVAL_MS = 15_000;
+
+// Null when no source currently has a fresh price
+export type PriceTickListener = (price: AggregatedPrice | null) => void;
+
+const listeners = new Map<PriceCurrency, Set<PriceTickListener>>();
+let timer: ReturnType<typeof setInterval> | null = null;
+
+const publish = async (currency: PriceCurrency, targets: Iterable<PriceTickListener>) => {
+  let price: AggregatedPrice | null = null;
+  try {
+    price = await getAggregatedPrice(currency);
+  } catch (error) {
+    console.error('Price Stream Error:', error);
+  }
+  // Skip connections that closed while the price was loading
+  for (const listener of targets) {
+    if (listeners.get(currency)?.has(listener)) listener(price);
+  }
+};
+
+const tick = () => {
+  for (const [currency, currencyListeners] of listeners) {
+    publish(currency, [...currencyListeners]);
+  }
+};
+
+export const subscribeToPriceTicks = (currency: PriceCurrency, listener: PriceTickListener) => {
+  const currencyListeners = listeners.get(currency) ?? new Set();
+  currencyListeners.add(listener);
+  listeners.set(currency, currencyListeners);
+
+  // New connections get the current price straight away rather than at the next tick
+  publish(currency, [listener]);
+  timer ??= setInterval(tick, TICK_INTERVAL_MS);
+
+  return () => {
+    currencyListeners.delete(listener);
+    if (currencyListeners.size === 0) listeners.delete(currency);
+    if (listeners.size === 0 && timer) {
+      clearInterval(timer);
+      timer = null;
+    }
+  };
+};
@@ -0,0 +1,36 @@
+import { CURRENCY_LOCALES, formatFiat, type PriceCurrency } from './currencies';
+
+// The visitor's display unit, and how bitcoin amounts are written in it.
+// `fiat` leads with fiat values and writes bitcoin amounts in ₿; `btc` and
+// `sats` lead with the bitcoin side. Bitcoin amounts are always `₿0.00125`
+// (symbol first, at most eight decimals) or `125,000 sats`, with digits
+// grouped the way the display currency's locale groups them.
+
+export const DISPLAY_UNITS = ['btc', 'sats', 'fiat'] as const;
+export type DisplayUnit = typeof DISPLAY_UNITS[number];
+
+export const SATS_PER_BTC = 100_000_000;
+
+export const isDisplayUnit = (value: string): value is DisplayUnit =>
+  (DISPLAY_UNITS as readonly string[]).includes(value);
+
+export const formatBtc = (btc: number, currency: PriceCurrency = 'USD') =>
+  `₿${new Intl.NumberFormat(CURRENCY_LOCALES[currency], { maximumFractionDigits: 8 }).format(btc)}`;
+
+export const formatSats = (sats: number, currency: PriceCurrency = 'USD') => {
+  const rounded = Math.round(sats);
+  return `${new Intl.NumberFormat(CURRENCY_LOCALES[currency]).format(rounded)} ${Math.abs(rounded) === 1 ? 'sat' : 'sats'}`;
+};
+
+// A bitcoin amount in the visitor's unit; `fiat` writes it in ₿
+export const formatBitcoin = (btc: number, unit: DisplayUnit, currency: PriceCurrency = 'USD') =>
+  unit === 'sats' ? formatSats(btc * SATS_PER_BTC, currency) : formatBtc(btc, currency);
+
+// The price of one bitcoin. In sats it is shown the other way round, as
+// what one unit of the currency buys, e.g. `1,492 sats` per dollar.
+export const formatBtcPrice = (
+  fiatPerBtc: number,
+  unit: DisplayUnit,
+  currency: PriceCurrency,
+  options: Intl.NumberFormatOptions = {}
+) => (unit === 'sats' ? formatSats(SATS_PER_BTC / fiatPerBtc, currency) : formatFiat(fiatPerBtc, currency, options));
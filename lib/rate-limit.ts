@@ -0,0 +1,89 @@
+import type { NextRequest } from 'next/server';
+
+// In-memory token buckets. Each key starts with a full bucket of `capacity`
+// tokens; a request spends one and tokens refill continuously.
+
+export interface TokenBucketOptions {
+  capacity: number;
+  refillPerSecond: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  retryAfterSeconds: number;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+// Above this many tracked clients, buckets that have refilled are dropped
+const MAX_TRACKED_KEYS = 10000;
+
+export const createRateLimiter = ({ capacity, refillPerSecond }: TokenBucketOptions) => {
+  const buckets = new Map<string, Bucket>();
+
+  const refill = (bucket: Bucket, now: number) => {
+    const elapsedSeconds = (now - bucket.updatedAt) / 1000;
+    bucket.tokens = Math.min(capacity, bucket.tokens + elapsedSeconds * refillPerSecond);
+    bucket.updatedAt = now;
+  };
+
+  const prune = (now: number) => {
+    for (const [key, bucket] of buckets) {
+      refill(bucket, now);
+      if (bucket.tokens >= capacity) buckets.delete(key);
+    }
+  };
+
+  const take = (key: string, now = Date.now()): RateLimitResult => {
+    let bucket = buckets.get(key);
+    if (!bucket) {
+      if (buckets.size >= MAX_TRACKED_KEYS) prune(now);
+      bucket = { tokens: capacity, updatedAt: now };
+      buckets.set(key, bucket);
+    } else {
+      refill(bucket, now);
+    }
+
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      return { allowed: true, limit: capacity, remaining: Math.floor(bucket.tokens), retryAfterSeconds: 0 };
+    }
+
+    return {
+      allowed: false,
+      limit: capacity,
+      remaining: 0,
+      retryAfterSeconds: Math.ceil((1 - bucket.tokens) / refillPerSecond),
+    };
+  };
+
+  return { take };
+};
+
+// Proxies in front of the app, each appending the address it saw to
+// X-Forwarded-For (default 1: the hosting platform's proxy)
+const getTrustedProxyHops = () => {
+  const hops = Number(process.env.TRUSTED_PROXY_HOPS ?? 1);
+  return Number.isInteger(hops) && hops >= 0 ? hops : 1;
+};
+
+// The X-Forwarded-For entry added by the outermost trusted proxy. Entries left
+// of it come from the client and can be forged, so they are never used.
+export const getClientIp = (request: NextRequest) => {
+  const hops = getTrustedProxyHops();
+  const forwarded = request.headers.get('x-forwarded-for')?.split(',').map(hop => hop.trim()).filter(Boolean) ?? [];
+  const trusted = hops > 0 ? forwarded.slice(-hops) : [];
+
+  return trusted[0] || request.headers.get('x-real-ip') || 'unknown';
+};
+
+export const rateLimitHeaders = (result: RateLimitResult) => ({
+  'Retry-After': String(result.retryAfterSeconds),
+  'RateLimit-Limit': String(result.limit),
+  'RateLimit-Remaining': String(result.remaining),
+});
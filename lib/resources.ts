@@ -0,0 +1,144 @@
+// Browser-side loading for the page's widgets. Each URL is fetched once
+// however many widgets read it, failures are retried with exponential
+// backoff, and the last good response is kept in localStorage so a widget
+// that can't load can still show real data, labelled with when it was fetched.
+
+const CACHE_PREFIX = 'tahoe:cache:';
+const MIN_RETRY_DELAY_MS = 2_000;
+const MAX_RETRY_DELAY_MS = 5 * 60_000;
+
+// Doubles with every failed attempt; the random half keeps visitors from
+// retrying in lockstep after an outage
+export const getRetryDelay = (attempt: number) => {
+  const delay = Math.min(MIN_RETRY_DELAY_MS * 2 ** attempt, MAX_RETRY_DELAY_MS);
+  return delay / 2 + Math.random() * (delay / 2);
+};
+
+export interface CachedValue<T> {
+  data: T;
+  asOf: string;
+}
+
+export const readCache = <T>(key: string): CachedValue<T> | null => {
+  try {
+    const stored = window.localStorage.getItem(`${CACHE_PREFIX}${key}`);
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    // Unavailable storage or an unreadable entry both mean no cached copy
+    return null;
+  }
+};
+
+export const writeCache = <T>(key: string, value: CachedValue<T>) => {
+  try {
+    window.localStorage.setItem(`${CACHE_PREFIX}${key}`, JSON.stringify(value));
+  } catch {
+    // Full or unavailable storage only costs the offline fallback
+  }
+};
+
+export interface ResourceSnapshot<T> {
+  data: T | null;
+  // When `data` was fetched
+  asOf: string | null;
+  // `data` is the stored copy from an earlier load, not a response from this visit
+  fallback: boolean;
+  loading: boolean;
+  error: string | null;
+}
+
+const EMPTY_SNAPSHOT: ResourceSnapshot<never> = { data: null, asOf: null, fallback: false, loading: true, error: null };
+
+interface Resource {
+  snapshot: ResourceSnapshot<unknown>;
+  listeners: Set<() => void>;
+  attempt: number;
+  inFlight: boolean;
+  timer: ReturnType<typeof setTimeout> | null;
+  refreshMs: number | null;
+}
+
+const resources = new Map<string, Resource>();
+
+const getResource = (url: string) => {
+  let resource = resources.get(url);
+  if (!resource) {
+    const cached = readCache<unknown>(url);
+    resource = {
+      snapshot: cached ? { data: cached.data, asOf: cached.asOf, fallback: true, loading: true, error: null } : EMPTY_SNAPSHOT,
+      listeners: new Set(),
+      attempt: 0,
+      inFlight: false,
+      timer: null,
+      refreshMs: null,
+    };
+    resources.set(url, resource);
+  }
+  return resource;
+};
+
+const publish = (resource: Resource, changes: Partial<ResourceSnapshot<unknown>>) => {
+  resource.snapshot = { ...resource.snapshot, ...changes };
+  resource.listeners.forEach(listener => listener());
+};
+
+const schedule = (url: string, delay: number) => {
+  const resource = getResource(url);
+  if (resource.timer) clearTimeout(resource.timer);
+  resource.timer = setTimeout(() => load(url), delay);
+};
+
+const load = async (url: string) => {
+  const resource = getResource(url);
+  resource.timer = null;
+  if (resource.inFlight) return;
+  resource.inFlight = true;
+  publish(resource, { loading: true });
+
+  try {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Request failed with ${response.status}`);
+    }
+    const cached = { data: await response.json(), asOf: new Date().toISOString() };
+    writeCache(url, cached);
+    resource.attempt = 0;
+    publish(resource, { ...cached, fallback: false, loading: false, error: null });
+    if (resource.refreshMs && resource.listeners.size > 0) schedule(url, resource.refreshMs);
+  } catch {
+    // Whatever was shown before stays, now possibly as a fallback
+    publish(resource, { loading: false, error: 'Could not load the latest data' });
+    if (resource.listeners.size > 0) schedule(url, getRetryDelay(resource.attempt++));
+  } finally {
+    resource.inFlight = false;
+  }
+};
+
+// `refreshMs` reloads the URL on that interval while anyone is subscribed
+export const subscribeToResource = (url: string, listener: () => void, refreshMs?: number) => {
+  const resource = getResource(url);
+  resource.listeners.add(listener);
+  if (refreshMs) resource.refreshMs = refreshMs;
+  if (resource.listeners.size === 1) {
+    load(url);
+  }
+
+  return () => {
+    resource.listeners.delete(listener);
+    if (resource.listeners.size === 0 && resource.timer) {
+      clearTimeout(resource.timer);
+      resource.timer = null;
+    }
+  };
+};
+
+export const getResourceSnapshot = <T>(url: string) => getResource(url).snapshot as ResourceSnapshot<T>;
+
+export const getServerResourceSnapshot = () => EMPTY_SNAPSHOT;
+
+// Retry now rather than waiting for the next backoff step
+export const retryResource = (url: string) => {
+  const resource = getResource(url);
+  if (resource.timer) clearTimeout(resource.timer);
+  load(url);
+};
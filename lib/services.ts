@@ -0,0 +1,142 @@
+// Services catalog with USD list prices.
+// `bitcoinOnlyDiscountPercent` is taken off the list price for clients who pay
+// in bitcoin; leave it out for services sold at list price.
+
+export interface Service {
+  id: string;
+  title: string;
+  description: string;
+  icon: string;
+  category: string;
+  priceUsd: number;
+  bitcoinOnlyDiscountPercent?: number;
+}
+
+export interface ServicePrice {
+  serviceId: string;
+  listPriceUsd: number;
+  discountPercent: number;
+  // Price after the bitcoin-only discount
+  priceUsd: number;
+  sats: number;
+  btc: string;
+}
+
+export const SERVICES: Service[] = [
+  {
+    id: 'self-custody',
+    title: 'Bitcoin Self-Custody',
+    description: 'Learn to secure your Bitcoin in cold storage with zero third-party risk.',
+    icon: '🔐',
+    category: 'Security',
+    priceUsd: 250,
+    bitcoinOnlyDiscountPercent: 10
+  },
+  {
+    id: 'multisig',
+    title: 'Multi-Signature Setup',
+    description: 'Advanced security with collaborative custody and backup options.',
+    icon: '🛡️',
+    category: 'Security',
+    priceUsd: 600,
+    bitcoinOnlyDiscountPercent: 10
+  },
+  {
+    id: 'node-setup',
+    title: 'Bitcoin Node Setup',
+    description: 'Run your own node and become part of the Bitcoin network.',
+    icon: '🌐',
+    category: 'Technical',
+    priceUsd: 400
+  },
+  {
+    id: 'dca',
+    title: 'DCA Strategy',
+    description: 'Set up automated dollar-cost averaging to build your stack.',
+    icon: '📈',
+    category: 'Strategy',
+    priceUsd: 150,
+    bitcoinOnlyDiscountPercent: 5
+  },
+  {
+    id: 'utxo-management',
+    title: 'UTXO Management',
+    description: 'Optimize your Bitcoin transactions and avoid high fees.',
+    icon: '⚡',
+    category: 'Technical',
+    priceUsd: 200
+  },
+  {
+    id: 'seed-recovery',
+    title: 'Seed Recovery',
+    description: 'Recover access to lost Bitcoin wallets safely and securely.',
+    icon: '🔑',
+    category: 'Recovery',
+    priceUsd: 500
+  }
+];
+
+export const getService = (id: string) => SERVICES.find(service => service.id === id) ?? null;
+
+// Price after the bitcoin-only discount, to the cent
+const discountedPriceUsd = (service: Service) =>
+  Math.round(service.priceUsd * (100 - (service.bitcoinOnlyDiscountPercent ?? 0))) / 100;
+
+// Checkout is always paid over Lightning, so packages carry the discounted price
+const bitcoinPriceOf = (serviceId: string) => {
+  const service = getService(serviceId);
+  if (!service) throw new Error(`Unknown service "${serviceId}"`);
+  return discountedPriceUsd(service);
+};
+
+// Consultations sold through Lightning checkout. `/api/checkout` prices the
+// invoice from this list, so visitors only ever choose a package id.
+export interface ConsultationPackage {
+  id: string;
+  name: string;
+  duration: string;
+  description: string;
+  priceUsd: number;
+}
+
+export const CONSULTATION_PACKAGES: ConsultationPackage[] = [
+  {
+    id: 'intro',
+    name: 'Intro Call',
+    duration: '30 min',
+    description: 'Ask anything: getting started, wallets, and security basics',
+    priceUsd: 50
+  },
+  {
+    id: 'self-custody',
+    name: 'Self-Custody Session',
+    duration: '90 min',
+    description: 'Hardware wallet setup, seed backup, and a test recovery',
+    priceUsd: bitcoinPriceOf('self-custody')
+  },
+  {
+    id: 'multisig',
+    name: 'Multi-Sig Setup',
+    duration: '3 hours',
+    description: '2-of-3 multi-sig with geographically distributed keys',
+    priceUsd: bitcoinPriceOf('multisig')
+  }
+];
+
+export const getConsultationPackage = (id: string) =>
+  CONSULTATION_PACKAGES.find(consultation => consultation.id === id) ?? null;
+
+export const priceService = (service: Service, usdPerBtc: number): ServicePrice => {
+  const discountPercent = service.bitcoinOnlyDiscountPercent ?? 0;
+  const priceUsd = discountedPriceUsd(service);
+  const sats = Math.round((priceUsd / usdPerBtc) * 100_000_000);
+
+  return {
+    serviceId: service.id,
+    listPriceUsd: service.priceUsd,
+    discountPercent,
+    priceUsd,
+    sats,
+    btc: (sats / 100_000_000).toFixed(8),
+  };
+};
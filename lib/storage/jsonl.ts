@@ -0,0 +1,120 @@
+import { appendFile, mkdir, readFile, readdir, rename, stat, writeFile } from 'fs/promises';
+import path from 'path';
+
+// JSONL files under DATA_DIR (default `.data/`), mostly append-only logs.
+// Small enough for a single-server site, and easy to inspect or back up.
+
+export const getDataDir = () => process.env.DATA_DIR || path.join(process.cwd(), '.data');
+
+const resolveFile = (file: string) => path.join(getDataDir(), file);
+
+// `strike-audit.jsonl` -> ['strike-audit', '.jsonl']
+const splitExtension = (file: string) =>
+  file.endsWith('.jsonl') ? [file.slice(0, -'.jsonl'.length), '.jsonl'] : [file, ''];
+
+// `strike-audit.jsonl`, 3 -> `strike-audit.3.jsonl`
+const generationFile = (file: string, generation: number) => {
+  const [stem, extension] = splitExtension(file);
+  return `${stem}.${generation}${extension}`;
+};
+
+// Archived generations of a rotated file, oldest first
+const listGenerations = async (file: string) => {
+  const [stem, extension] = splitExtension(file);
+  let names: string[];
+  try {
+    names = await readdir(getDataDir());
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+  return names
+    .filter(name => name.startsWith(`${stem}.`) && name.endsWith(extension))
+    .map(name => name.slice(stem.length + 1, name.length - extension.length))
+    .filter(generation => /^\d+$/.test(generation))
+    .map(Number)
+    .sort((a, b) => a - b);
+};
+
+// Appends to a file run one at a time, so a rotation can't race an append
+const appendQueues = new Map<string, Promise<void>>();
+
+const rotateIfFull = async (file: string, maxBytes: number) => {
+  try {
+    if ((await stat(resolveFile(file))).size < maxBytes) return;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+    throw error;
+  }
+  const generations = await listGenerations(file);
+  const next = (generations[generations.length - 1] ?? 0) + 1;
+  await rename(resolveFile(file), resolveFile(generationFile(file, next)));
+};
+
+export interface AppendOptions {
+  // Once the file reaches this size it is archived as the next numbered
+  // generation (see `getRotatedFiles`) and a new file is started. Archives
+  // are kept, never overwritten.
+  maxBytes?: number;
+}
+
+export const appendRecord = (file: string, record: unknown, { maxBytes }: AppendOptions = {}) => {
+  const append = async () => {
+    await mkdir(getDataDir(), { recursive: true });
+    if (maxBytes) await rotateIfFull(file, maxBytes);
+    await appendFile(resolveFile(file), `${JSON.stringify(record)}\n`, 'utf8');
+  };
+
+  const queued = (appendQueues.get(file) ?? Promise.resolve()).then(append);
+  appendQueues.set(file, queued.catch(() => {}));
+  return queued;
+};
+
+// Replaces the whole file. Written to a temporary file and renamed into place,
+// so readers see either the old records or the new ones, never a mix.
+export const writeRecords = async (file: string, records: unknown[]) => {
+  await mkdir(getDataDir(), { recursive: true });
+  const target = resolveFile(file);
+  const temporary = `${target}.${process.pid}.tmp`;
+  await writeFile(temporary, records.map(record => `${JSON.stringify(record)}\n`).join(''), 'utf8');
+  await rename(temporary, target);
+};
+
+// Skips malformed lines (e.g. a partial write after a crash) instead of failing the read
+export const readRecords = async <T>(file: string): Promise<T[]> => {
+  let contents: string;
+  try {
+    contents = await readFile(resolveFile(file), 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+
+  const records: T[] = [];
+  for (const line of contents.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      records.push(JSON.parse(line) as T);
+    } catch {
+      // Ignore the corrupt line
+    }
+  }
+  return records;
+};
+
+// A rotated log's files, newest first: the current file, then its archives.
+// Read them with `readRecords` one at a time to stop once enough are found.
+export const getRotatedFiles = async (file: string) => [
+  file,
+  ...(await listGenerations(file)).reverse().map(generation => generationFile(file, generation)),
+];
+
+// Last write to the file in ms, or null when it doesn't exist yet
+export const getModifiedTime = async (file: string) => {
+  try {
+    return (await stat(resolveFile(file))).mtimeMs;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+};
@@ -0,0 +1,150 @@
+import { appendRecord, getRotatedFiles, readRecords } from '@/lib/storage/jsonl';
+import type { AccessRole } from '@/lib/auth/session';
+
+// Durable audit trail of every call made through the Strike proxy.
+// Request bodies are stored redacted: only amounts, currencies and
+// correlation IDs survive, everything else becomes "[REDACTED]".
+// The log rotates at AUDIT_MAX_BYTES into numbered archives that are all kept,
+// and a burst of rate-limited calls from one client is written as two entries
+// per window.
+
+const AUDIT_FILE = 'strike-audit.jsonl';
+const AUDIT_MAX_BYTES = 5 * 1024 * 1024;
+const COLLAPSE_WINDOW_MS = 60_000;
+
+// Body fields that are useful for reconciling payments and carry no personal data
+const UNREDACTED_KEYS = new Set(['amount', 'currency', 'correlationId', 'state', 'targetCurrency']);
+
+export interface AuditEntry {
+  timestamp: string;
+  caller: {
+    role: AccessRole;
+    ip: string;
+  };
+  method: string;
+  path: string;
+  // `rejected` calls were stopped by the allowlist, auth or rate limit checks
+  outcome: 'forwarded' | 'rejected';
+  status: number;
+  cache: string | null;
+  latencyMs: number;
+  invoiceIds: string[];
+  requestBody: unknown;
+  // Further identical rate-limited rejections folded into this entry
+  repeated?: number;
+}
+
+export interface AuditQuery {
+  method?: string;
+  path?: string;
+  invoiceId?: string;
+  status?: number;
+  outcome?: AuditEntry['outcome'];
+  since?: string;
+  until?: string;
+  limit?: number;
+}
+
+const redactValue = (value: unknown, key?: string): unknown => {
+  if (Array.isArray(value)) return value.map((item) => redactValue(item));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([childKey, child]) => [childKey, redactValue(child, childKey)])
+    );
+  }
+  if (key && UNREDACTED_KEYS.has(key)) return value;
+  return typeof value === 'string' ? '[REDACTED]' : value;
+};
+
+export const redactBody = (raw: string) => {
+  if (!raw) return null;
+  try {
+    return redactValue(JSON.parse(raw));
+  } catch {
+    return `[REDACTED ${raw.length} bytes]`;
+  }
+};
+
+// Invoice IDs mentioned in a Strike response: a single invoice or a listing
+export const extractInvoiceIds = (body: unknown): string[] => {
+  if (!body || typeof body !== 'object') return [];
+  const record = body as { invoiceId?: unknown; items?: unknown };
+
+  const ids: string[] = [];
+  if (typeof record.invoiceId === 'string') ids.push(record.invoiceId);
+  if (Array.isArray(record.items)) {
+    for (const item of record.items) ids.push(...extractInvoiceIds(item));
+  }
+  return ids;
+};
+
+const writeEntry = async (entry: AuditEntry) => {
+  try {
+    await appendRecord(AUDIT_FILE, entry, { maxBytes: AUDIT_MAX_BYTES });
+  } catch (error) {
+    // Never fail a payment call because the audit log could not be written
+    console.error('Strike audit log write failed:', error);
+  }
+};
+
+interface CollapsedRejections {
+  count: number;
+  last: AuditEntry;
+}
+
+// Open windows of rate-limited rejections, by client and endpoint
+const collapsing = new Map<string, CollapsedRejections>();
+
+// The first rate-limited rejection in a window is written as usual; the rest
+// are counted and written as one entry, with `repeated`, when the window closes
+export const recordAuditEntry = async (entry: AuditEntry) => {
+  if (entry.outcome === 'rejected' && entry.status === 429) {
+    const key = `${entry.caller.ip} ${entry.method} ${entry.path}`;
+    const open = collapsing.get(key);
+    if (open) {
+      open.count++;
+      open.last = entry;
+      return;
+    }
+
+    collapsing.set(key, { count: 0, last: entry });
+    setTimeout(() => {
+      const closed = collapsing.get(key);
+      collapsing.delete(key);
+      if (closed && closed.count > 0) writeEntry({ ...closed.last, repeated: closed.count });
+    }, COLLAPSE_WINDOW_MS);
+  }
+
+  await writeEntry(entry);
+};
+
+// Newest first. Reads the current file, then older archives only until
+// `limit` entries match or the archives fall before `since`.
+export const queryAuditLog = async (query: AuditQuery = {}) => {
+  const since = query.since ? Date.parse(query.since) : null;
+  const until = query.until ? Date.parse(query.until) : null;
+  const limit = query.limit ?? 200;
+
+  const matchesQuery = (entry: AuditEntry) => {
+    const time = Date.parse(entry.timestamp);
+    return (
+      (!query.method || entry.method === query.method) &&
+      (!query.path || entry.path.includes(query.path)) &&
+      (!query.invoiceId || entry.invoiceIds.includes(query.invoiceId)) &&
+      (!query.status || entry.status === query.status) &&
+      (!query.outcome || entry.outcome === query.outcome) &&
+      (since === null || time >= since) &&
+      (until === null || time <= until)
+    );
+  };
+
+  const matches: AuditEntry[] = [];
+  for (const file of await getRotatedFiles(AUDIT_FILE)) {
+    const entries = await readRecords<AuditEntry>(file);
+    matches.push(...entries.filter(matchesQuery).reverse());
+    if (matches.length >= limit) break;
+    if (since !== null && entries.length > 0 && Date.parse(entries[0].timestamp) < since) break;
+  }
+
+  return matches.slice(0, limit);
+};
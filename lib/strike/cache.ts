@@ -0,0 +1,93 @@
+import { createHash } from 'crypto';
+import type { StoredResponse } from './idempotency';
+
+// Shared in-memory cache for public Strike GET responses.
+// Fresh entries are served as-is; stale ones are served while a single
+// background refresh runs, and kept longer as a fallback when Strike is down.
+
+export interface StrikeCacheOptions {
+  ttlSeconds: number;
+  staleWhileRevalidateSeconds: number;
+  staleIfErrorSeconds: number;
+}
+
+export interface CachedResponse {
+  snapshot: StoredResponse;
+  etag: string;
+  storedAt: number;
+}
+
+export type CacheStatus = 'HIT' | 'STALE' | 'MISS';
+
+const MAX_ENTRIES = 500;
+
+const entries = new Map<string, CachedResponse>();
+const refreshing = new Map<string, Promise<StoredResponse>>();
+
+const computeEtag = (body: ArrayBuffer | null) =>
+  `"${createHash('sha1').update(Buffer.from(body ?? new ArrayBuffer(0))).digest('base64url')}"`;
+
+const store = (key: string, snapshot: StoredResponse) => {
+  entries.delete(key);
+  if (entries.size >= MAX_ENTRIES) {
+    // Maps iterate in insertion order, so the first key is the oldest
+    const oldest = entries.keys().next().value;
+    if (oldest !== undefined) entries.delete(oldest);
+  }
+  entries.set(key, { snapshot, etag: computeEtag(snapshot.body), storedAt: Date.now() });
+};
+
+// One upstream fetch per key at a time; only 200 responses are cached
+const refresh = (key: string, load: () => Promise<StoredResponse>) => {
+  let pending = refreshing.get(key);
+  if (!pending) {
+    pending = load()
+      .then((snapshot) => {
+        if (snapshot.status === 200) store(key, snapshot);
+        return snapshot;
+      })
+      .finally(() => refreshing.delete(key));
+    refreshing.set(key, pending);
+  }
+  return pending;
+};
+
+export const getWithCache = async (
+  key: string,
+  options: StrikeCacheOptions,
+  load: () => Promise<StoredResponse>
+): Promise<{ status: CacheStatus; cached: CachedResponse | null; snapshot: StoredResponse }> => {
+  const entry = entries.get(key);
+  const ageSeconds = entry ? (Date.now() - entry.storedAt) / 1000 : Infinity;
+
+  if (entry && ageSeconds < options.ttlSeconds) {
+    return { status: 'HIT', cached: entry, snapshot: entry.snapshot };
+  }
+
+  if (entry && ageSeconds < options.ttlSeconds + options.staleWhileRevalidateSeconds) {
+    refresh(key, load).catch((error) => console.error('Strike cache refresh failed:', error));
+    return { status: 'STALE', cached: entry, snapshot: entry.snapshot };
+  }
+
+  const fallback = entry && ageSeconds < options.ttlSeconds + options.staleIfErrorSeconds ? entry : null;
+
+  try {
+    const snapshot = await refresh(key, load);
+    if (snapshot.status >= 500 && fallback) {
+      return { status: 'STALE', cached: fallback, snapshot: fallback.snapshot };
+    }
+    return { status: 'MISS', cached: entries.get(key) ?? null, snapshot };
+  } catch (error) {
+    if (fallback) {
+      return { status: 'STALE', cached: fallback, snapshot: fallback.snapshot };
+    }
+    throw error;
+  }
+};
+
+// Browser caching mirrors the server policy, counted from when the entry was stored
+export const cacheControlHeader = (cached: CachedResponse, options: StrikeCacheOptions) => {
+  const ageSeconds = Math.floor((Date.now() - cached.storedAt) / 1000);
+  const maxAge = Math.max(0, options.ttlSeconds - ageSeconds);
+  return `public, max-age=${maxAge}, stale-while-revalidate=${options.staleWhileRevalidateSeconds}, stale-if-error=${options.staleIfErrorSeconds}`;
+};
@@ -0,0 +1,174 @@
+import type {
+  AccountProfile,
+  CreateInvoiceRequest,
+  CreateReceiveRequest,
+  Invoice,
+  InvoiceList,
+  Quote,
+  ReceiveList,
+  ReceiveRequest,
+  TickerRate,
+} from './types';
+import {
+  isAccountProfile,
+  isInvoice,
+  isInvoiceList,
+  isQuote,
+  isReceiveList,
+  isReceiveRequest,
+  isTicker,
+  type Guard,
+} from './validate';
+import { STRIKE_ERRORS, normalizeStrikeError, type StrikeErrorCode } from './errors';
+
+// Typed Strike client shared by server code (talking to Strike directly)
+// and the browser (talking to the `/api/strike` proxy). Calls never throw:
+// they resolve to a result that is either data or a typed error whose
+// `message` is safe to show to a visitor.
+
+export type StrikeClientErrorKind = 'http' | 'network' | 'invalid-response';
+
+export interface StrikeClientError {
+  kind: StrikeClientErrorKind;
+  code: StrikeErrorCode;
+  // HTTP status when a response was received
+  status: number | null;
+  message: string;
+  retryable: boolean;
+  // Parsed error body, if any
+  body?: unknown;
+}
+
+export type StrikeResult<T> =
+  | { ok: true; data: T }
+  | { ok: false; error: StrikeClientError };
+
+export interface StrikeClientOptions {
+  // e.g. `/api/strike` in the browser or the Strike API base on the server
+  baseUrl: string;
+  headers?: Record<string, string>;
+  fetch?: typeof fetch;
+}
+
+export interface StrikeRequestOptions {
+  idempotencyKey?: string;
+  signal?: AbortSignal;
+}
+
+const parseBody = async (response: Response) => {
+  const text = await response.text();
+  if (!text) return null;
+  try {
+    return JSON.parse(text) as unknown;
+  } catch {
+    return text;
+  }
+};
+
+const id = (value: string) => encodeURIComponent(value);
+
+const clientError = (
+  kind: StrikeClientErrorKind,
+  code: StrikeErrorCode,
+  status: number | null,
+  body?: unknown
+): StrikeClientError => ({
+  kind,
+  code,
+  status,
+  message: STRIKE_ERRORS[code].message,
+  retryable: STRIKE_ERRORS[code].retryable,
+  ...(body !== undefined && { body }),
+});
+
+const createRequester = ({ baseUrl, headers = {}, fetch: fetchImpl }: StrikeClientOptions) => {
+  const doFetch = fetchImpl ?? ((input: RequestInfo | URL, init?: RequestInit) => fetch(input, init));
+
+  return async <T>(
+    method: string,
+    path: string,
+    guard: Guard<T>,
+    { body, idempotencyKey, signal }: StrikeRequestOptions & { body?: unknown } = {}
+  ): Promise<StrikeResult<T>> => {
+    let response: Response;
+    try {
+      response = await doFetch(`${baseUrl}/${path}`, {
+        method,
+        headers: {
+          ...headers,
+          ...(body !== undefined && { 'Content-Type': 'application/json' }),
+          ...(idempotencyKey && { 'Idempotency-Key': idempotencyKey }),
+        },
+        body: body !== undefined ? JSON.stringify(body) : undefined,
+        signal,
+      });
+    } catch {
+      return { ok: false, error: clientError('network', 'UPSTREAM_UNAVAILABLE', null) };
+    }
+
+    const data = await parseBody(response).catch(() => null);
+
+    if (!response.ok) {
+      const { code } = normalizeStrikeError(response.status, data);
+      return { ok: false, error: clientError('http', code, response.status, data) };
+    }
+
+    if (!guard(data)) {
+      return { ok: false, error: clientError('invalid-response', 'UNKNOWN', response.status, data) };
+    }
+
+    return { ok: true, data };
+  };
+};
+
+export const createStrikeClient = (options: StrikeClientOptions) => {
+  const request = createRequester(options);
+
+  return {
+    // Rates
+    getTicker: (options?: StrikeRequestOptions) =>
+      request<TickerRate[]>('GET', 'rates/ticker', isTicker, options),
+
+    // Invoices
+    createInvoice: (invoice: CreateInvoiceRequest, options?: StrikeRequestOptions) =>
+      request<Invoice>('POST', 'invoices', isInvoice, { ...options, body: invoice }),
+    getInvoice: (invoiceId: string, options?: StrikeRequestOptions) =>
+      request<Invoice>('GET', `invoices/${id(invoiceId)}`, isInvoice, options),
+    listInvoices: (query: { filter?: string; orderby?: string; skip?: number; top?: number } = {}, options?: StrikeRequestOptions) => {
+      const params = new URLSearchParams();
+      if (query.filter) params.set('$filter', query.filter);
+      if (query.orderby) params.set('$orderby', query.orderby);
+      if (query.skip !== undefined) params.set('$skip', String(query.skip));
+      if (query.top !== undefined) params.set('$top', String(query.top));
+      const search = params.toString();
+      return request<InvoiceList>('GET', `invoices${search ? `?${search}` : ''}`, isInvoiceList, options);
+    },
+    cancelInvoice: (invoiceId: string, options?: StrikeRequestOptions) =>
+      request<Invoice>('PATCH', `invoices/${id(invoiceId)}/cancel`, isInvoice, options),
+
+    // Quotes
+    createQuote: (invoiceId: string, options?: StrikeRequestOptions) =>
+      request<Quote>('POST', `invoices/${id(invoiceId)}/quote`, isQuote, options),
+
+    // Receive requests
+    createReceiveRequest: (receiveRequest: CreateReceiveRequest, options?: StrikeRequestOptions) =>
+      request<ReceiveRequest>('POST', 'receive-requests', isReceiveRequest, { ...options, body: receiveRequest }),
+    getReceives: (receiveRequestId: string, options?: StrikeRequestOptions) =>
+      request<ReceiveList>('GET', `receive-requests/${id(receiveRequestId)}/receives`, isReceiveList, options),
+
+    // Account profiles
+    getAccountProfile: (handle: string, options?: StrikeRequestOptions) =>
+      request<AccountProfile>('GET', `accounts/handle/${id(handle)}/profile`, isAccountProfile, options),
+  };
+};
+
+export type StrikeClient = ReturnType<typeof createStrikeClient>;
+
+// Browser-side client; every call goes through the allowlisted proxy
+export const strikeProxyClient = createStrikeClient({ baseUrl: '/api/strike' });
+
+const siteRequest = createRequester({ baseUrl: '/api' });
+
+// Consultation checkout; the server prices the package and creates the invoice
+export const createCheckoutInvoice = (packageId: string, options?: StrikeRequestOptions) =>
+  siteRequest<Invoice>('POST', 'checkout', isInvoice, { ...options, body: { packageId } });
@@ -0,0 +1,30 @@
+// Environment-based Strike configuration shared by the proxy and webhook routes
+
+// Known Strike environments; STRIKE_API_BASE overrides the preset entirely
+const STRIKE_ENVIRONMENTS: Record<string, string> = {
+  production: 'https://api.strike.me/v1',
+  sandbox: 'https://api.dev.strike.me/v1',
+  mock: 'http://localhost:4010/v1',
+};
+
+export const getStrikeApiBase = () => {
+  const base = process.env.STRIKE_API_BASE ||
+    STRIKE_ENVIRONMENTS[process.env.STRIKE_ENVIRONMENT || 'production'];
+
+  if (!base) {
+    throw new Error(`Unknown STRIKE_ENVIRONMENT "${process.env.STRIKE_ENVIRONMENT}"`);
+  }
+  return base.replace(/\/+$/, '');
+};
+
+export const getStrikeApiKey = () => process.env.STRIKE_API_KEY;
+
+export const getStrikeWebhookSecret = () => process.env.STRIKE_WEBHOOK_SECRET;
+
+// How old a webhook event may be before it is treated as a replay
+export const getWebhookToleranceMs = () =>
+  Number(process.env.STRIKE_WEBHOOK_TOLERANCE_SECONDS || 24 * 60 * 60) * 1000;
+
+// Upper bound on a single upstream Strike request
+export const getStrikeTimeoutMs = () =>
+  Number(process.env.STRIKE_TIMEOUT_MS || 10000);
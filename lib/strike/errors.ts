@@ -0,0 +1,103 @@
+// Stable error model for everything that can go wrong between the browser,
+// the proxy and Strike. Upstream payloads are mapped onto these codes so the
+// UI gets a user-safe message and never sees Strike's internals.
+
+export type StrikeErrorCode =
+  | 'INVALID_AMOUNT'
+  | 'INVALID_REQUEST'
+  | 'NOT_FOUND'
+  | 'INVOICE_EXPIRED'
+  | 'INVOICE_ALREADY_PAID'
+  | 'INVOICE_CANCELLED'
+  | 'DUPLICATE_REQUEST'
+  | 'IDEMPOTENCY_CONFLICT'
+  | 'IDEMPOTENCY_KEY_REUSED'
+  | 'ENDPOINT_NOT_ALLOWED'
+  | 'LOGIN_REQUIRED'
+  | 'RATE_LIMITED'
+  | 'AUTH_MISCONFIGURED'
+  | 'UPSTREAM_UNAVAILABLE'
+  | 'UPSTREAM_TIMEOUT'
+  | 'UNKNOWN';
+
+interface ErrorDefinition {
+  status: number;
+  message: string;
+  retryable: boolean;
+}
+
+export const STRIKE_ERRORS: Record<StrikeErrorCode, ErrorDefinition> = {
+  INVALID_AMOUNT: { status: 422, message: 'That amount is not valid. Please check it and try again.', retryable: false },
+  INVALID_REQUEST: { status: 400, message: 'The payment request was invalid.', retryable: false },
+  NOT_FOUND: { status: 404, message: 'That invoice could not be found.', retryable: false },
+  INVOICE_EXPIRED: { status: 410, message: 'This invoice has expired. Please start a new payment.', retryable: false },
+  INVOICE_ALREADY_PAID: { status: 409, message: 'This invoice has already been paid.', retryable: false },
+  INVOICE_CANCELLED: { status: 409, message: 'This invoice was cancelled.', retryable: false },
+  DUPLICATE_REQUEST: { status: 409, message: 'This payment was already submitted.', retryable: false },
+  IDEMPOTENCY_CONFLICT: { status: 409, message: 'This request is already being processed.', retryable: true },
+  IDEMPOTENCY_KEY_REUSED: { status: 422, message: 'This request key was already used for a different payment.', retryable: false },
+  ENDPOINT_NOT_ALLOWED: { status: 403, message: 'That action is not available.', retryable: false },
+  LOGIN_REQUIRED: { status: 401, message: 'Operator login required.', retryable: false },
+  RATE_LIMITED: { status: 429, message: 'Too many requests. Please wait a moment and try again.', retryable: true },
+  AUTH_MISCONFIGURED: { status: 500, message: 'Payments are temporarily unavailable.', retryable: false },
+  UPSTREAM_UNAVAILABLE: { status: 503, message: 'Our payment provider is temporarily unavailable. Please try again shortly.', retryable: true },
+  UPSTREAM_TIMEOUT: { status: 504, message: 'Our payment provider took too long to respond. Please try again.', retryable: true },
+  UNKNOWN: { status: 502, message: 'Something went wrong with the payment. Please try again.', retryable: true },
+};
+
+// Body of every error response from the proxy
+export interface StrikeErrorBody {
+  error: string;
+  code: StrikeErrorCode;
+  retryable: boolean;
+  // Strike's trace ID, for matching a complaint to Strike support logs
+  traceId?: string;
+}
+
+export const isStrikeErrorCode = (value: unknown): value is StrikeErrorCode =>
+  typeof value === 'string' && Object.hasOwn(STRIKE_ERRORS, value);
+
+export const buildErrorBody = (code: StrikeErrorCode, traceId?: string): StrikeErrorBody => ({
+  error: STRIKE_ERRORS[code].message,
+  code,
+  retryable: STRIKE_ERRORS[code].retryable,
+  ...(traceId && { traceId }),
+});
+
+// Strike errors look like `{ traceId, data: { status, code, message, validationErrors } }`
+interface StrikeUpstreamError {
+  traceId?: string;
+  data?: {
+    status?: number;
+    code?: string;
+    message?: string;
+    validationErrors?: Record<string, unknown>;
+  };
+}
+
+const classifyUpstream = (status: number, upstream: StrikeUpstreamError): StrikeErrorCode => {
+  const code = upstream.data?.code?.toUpperCase() ?? '';
+  const invalidFields = Object.keys(upstream.data?.validationErrors ?? {}).join(' ').toLowerCase();
+
+  if (status === 429 || code.includes('RATE_LIMIT')) return 'RATE_LIMITED';
+  if (status === 401 || status === 403 || code === 'UNAUTHORIZED' || code === 'FORBIDDEN') return 'AUTH_MISCONFIGURED';
+  if (code.includes('EXPIRED')) return 'INVOICE_EXPIRED';
+  if (code.includes('INVOICE_PAID') || code.includes('ALREADY_PAID')) return 'INVOICE_ALREADY_PAID';
+  if (code.includes('CANCELLED')) return 'INVOICE_CANCELLED';
+  if (code.includes('DUPLICATE')) return 'DUPLICATE_REQUEST';
+  if (code.includes('AMOUNT') || invalidFields.includes('amount')) return 'INVALID_AMOUNT';
+  if (status === 404 || code.includes('NOT_FOUND')) return 'NOT_FOUND';
+  if (status >= 500) return 'UPSTREAM_UNAVAILABLE';
+  if (status >= 400) return 'INVALID_REQUEST';
+  return 'UNKNOWN';
+};
+
+// Maps any error response (raw Strike, or already normalized by the proxy) to a stable code
+export const normalizeStrikeError = (status: number, body: unknown) => {
+  const record = (body && typeof body === 'object' ? body : {}) as Partial<StrikeErrorBody> & StrikeUpstreamError;
+
+  if (isStrikeErrorCode(record.code)) {
+    return { code: record.code, traceId: record.traceId };
+  }
+  return { code: classifyUpstream(status, record), traceId: record.traceId };
+};
@@ -0,0 +1,68 @@
+import { createHash } from 'crypto';
+
+// Idempotency-Key support for write calls through the Strike proxy.
+// The first final response for a key is kept for a time window and replayed
+// to any repeat of the same request; a repeat with a different payload is refused.
+
+export const IDEMPOTENCY_HEADER = 'idempotency-key';
+const MAX_KEY_LENGTH = 255;
+
+export interface StoredResponse {
+  status: number;
+  headers: [string, string][];
+  body: ArrayBuffer | null;
+}
+
+interface Entry {
+  fingerprint: string;
+  expiresAt: number;
+  // null while the first request is still in flight
+  response: StoredResponse | null;
+}
+
+export type IdempotencyLookup =
+  | { kind: 'new' }
+  | { kind: 'replay'; response: StoredResponse }
+  | { kind: 'in-flight' }
+  | { kind: 'mismatch' };
+
+const entries = new Map<string, Entry>();
+
+const getTtlMs = () => Number(process.env.IDEMPOTENCY_TTL_SECONDS || 24 * 60 * 60) * 1000;
+
+const pruneExpired = (now: number) => {
+  for (const [key, entry] of entries) {
+    if (entry.expiresAt <= now) entries.delete(key);
+  }
+};
+
+export const isValidIdempotencyKey = (key: string) =>
+  key.length > 0 && key.length <= MAX_KEY_LENGTH && /^[\x21-\x7e]+$/.test(key);
+
+export const fingerprintRequest = (method: string, url: string, body: string | undefined) =>
+  createHash('sha256').update(`${method}\n${url}\n${body ?? ''}`).digest('hex');
+
+// Reserves `scope` for a new request, or reports how an earlier one with the same key went
+export const beginIdempotentRequest = (scope: string, fingerprint: string, now = Date.now()): IdempotencyLookup => {
+  pruneExpired(now);
+
+  const existing = entries.get(scope);
+  if (existing) {
+    if (existing.fingerprint !== fingerprint) return { kind: 'mismatch' };
+    if (!existing.response) return { kind: 'in-flight' };
+    return { kind: 'replay', response: existing.response };
+  }
+
+  entries.set(scope, { fingerprint, expiresAt: now + getTtlMs(), response: null });
+  return { kind: 'new' };
+};
+
+export const completeIdempotentRequest = (scope: string, response: StoredResponse) => {
+  const entry = entries.get(scope);
+  if (entry) entry.response = response;
+};
+
+// Releases the key after a failure that should not be replayed, so the client can retry
+export const abandonIdempotentRequest = (scope: string) => {
+  entries.delete(scope);
+};
@@ -0,0 +1,178 @@
+import { appendRecord, readRecords } from '@/lib/storage/jsonl';
+import { getStrikeServerClient } from './server';
+import { labelInvoiceProduct } from './products';
+import { findSettlementQuote, getRecordedQuotes, settleInvoice } from './settlement';
+import type { Amount, Invoice, InvoiceState } from './types';
+
+// Invoices created through the site, for the operator dashboard and receipts.
+// Strike is the source of truth; recorded quotes add the settled sats and USD.
+
+const SITE_INVOICES_FILE = 'site-invoices.jsonl';
+
+interface SiteInvoiceRecord {
+  invoiceId: string;
+  correlationId: string | null;
+  recordedAt: string;
+}
+
+// Invoice lookups made to Strike at once while loading the dashboard
+const FETCH_CONCURRENCY = 5;
+// How long one read of the listing serves the dashboard's filters
+const LISTING_TTL_MS = 5 * 60_000;
+
+export interface SiteInvoice {
+  invoiceId: string;
+  created: string;
+  state: InvoiceState;
+  product: string;
+  description: string;
+  amount: Amount;
+  sats: number | null;
+  usd: number | null;
+}
+
+export interface SiteInvoiceQuery {
+  state?: InvoiceState;
+  since?: string;
+  until?: string;
+}
+
+export interface SiteInvoiceTotals {
+  count: number;
+  paidCount: number;
+  // Totals cover paid invoices only
+  paidSats: number;
+  paidUsd: number;
+  // Paid invoices whose sats or USD value is unknown (no recorded quote)
+  unsettledCount: number;
+}
+
+// Called for every invoice the site creates, so visitors can only look up those
+export const recordSiteInvoice = async (invoice: Invoice) => {
+  try {
+    await appendRecord(SITE_INVOICES_FILE, {
+      invoiceId: invoice.invoiceId,
+      correlationId: invoice.correlationId ?? null,
+      recordedAt: new Date().toISOString(),
+    } satisfies SiteInvoiceRecord);
+  } catch (error) {
+    console.error('Site Invoice Record Error:', error);
+  }
+};
+
+// Recorded at creation, or quoted through the proxy before creations were recorded
+const getSiteInvoiceIds = async () => {
+  const [records, quotes] = await Promise.all([readRecords<SiteInvoiceRecord>(SITE_INVOICES_FILE), getRecordedQuotes()]);
+  return new Set([...records.map(record => record.invoiceId), ...quotes.map(quote => quote.invoiceId)]);
+};
+
+export const isSiteInvoice = async (invoiceId: string) => (await getSiteInvoiceIds()).has(invoiceId);
+
+// Paid and cancelled invoices never change, so they are fetched from Strike once
+const finalInvoices = new Map<string, Invoice>();
+
+const fetchSiteInvoice = async (invoiceId: string) => {
+  const known = finalInvoices.get(invoiceId);
+  if (known) return known;
+
+  const result = await getStrikeServerClient().getInvoice(invoiceId);
+  if (!result.ok) {
+    // Gone from the account, so there is nothing to show
+    if (result.error.code === 'NOT_FOUND') return null;
+    throw new Error(`Strike invoice lookup failed: ${result.error.code}`);
+  }
+  if (result.data.state === 'PAID' || result.data.state === 'CANCELLED') {
+    finalInvoices.set(invoiceId, result.data);
+  }
+  return result.data;
+};
+
+// Every site invoice, newest first. The recorded IDs decide what is listed;
+// the description only labels the product.
+const loadSiteInvoices = async () => {
+  const [ids, quotes] = await Promise.all([getSiteInvoiceIds(), getRecordedQuotes()]);
+
+  const fetched: (Invoice | null)[] = [];
+  const pending = [...ids];
+  for (let start = 0; start < pending.length; start += FETCH_CONCURRENCY) {
+    fetched.push(...await Promise.all(pending.slice(start, start + FETCH_CONCURRENCY).map(fetchSiteInvoice)));
+  }
+
+  return fetched
+    .filter((invoice): invoice is Invoice => invoice !== null)
+    .map((invoice): SiteInvoice => {
+      const { sats, usd } = settleInvoice(invoice, findSettlementQuote(quotes, invoice.invoiceId));
+      return {
+        invoiceId: invoice.invoiceId,
+        created: invoice.created,
+        state: invoice.state,
+        product: labelInvoiceProduct(invoice.description),
+        description: invoice.description ?? '',
+        amount: invoice.amount,
+        sats,
+        usd,
+      };
+    })
+    .sort((a, b) => Date.parse(b.created) - Date.parse(a.created));
+};
+
+let listing: { loadedAt: number; invoices: Promise<SiteInvoice[]> } | null = null;
+
+// Newest first. Filters apply to a cached read of the whole listing, so
+// changing them doesn't query Strike again; `refresh` reads it anew.
+export const listSiteInvoices = async (query: SiteInvoiceQuery = {}, { refresh = false } = {}) => {
+  if (refresh || !listing || Date.now() - listing.loadedAt > LISTING_TTL_MS) {
+    const invoices = loadSiteInvoices();
+    listing = { loadedAt: Date.now(), invoices };
+    // A failed read is retried next time instead of being cached
+    invoices.catch(() => {
+      if (listing?.invoices === invoices) listing = null;
+    });
+  }
+
+  const since = query.since ? Date.parse(query.since) : null;
+  const until = query.until ? Date.parse(query.until) : null;
+
+  return (await listing.invoices).filter(invoice => {
+    const created = Date.parse(invoice.created);
+    return (
+      (!query.state || invoice.state === query.state) &&
+      (since === null || created >= since) &&
+      (until === null || created <= until)
+    );
+  });
+};
+
+export const totalSiteInvoices = (invoices: SiteInvoice[]): SiteInvoiceTotals => {
+  const totals = { count: invoices.length, paidCount: 0, paidSats: 0, paidUsd: 0, unsettledCount: 0 };
+
+  for (const invoice of invoices) {
+    if (invoice.state !== 'PAID') continue;
+    totals.paidCount++;
+    totals.paidSats += invoice.sats ?? 0;
+    totals.paidUsd += invoice.usd ?? 0;
+    if (invoice.sats === null || invoice.usd === null) totals.unsettledCount++;
+  }
+
+  totals.paidUsd = Math.round(totals.paidUsd * 100) / 100;
+  return totals;
+};
+
+const CSV_COLUMNS: (keyof SiteInvoice)[] = ['invoiceId', 'created', 'state', 'product', 'sats', 'usd', 'description'];
+
+// Quotes every field and defuses spreadsheet formulas in free text
+const csvField = (value: unknown) => {
+  let text = value === null || value === undefined ? '' : String(value);
+  if (/^[=+\-@]/.test(text)) text = `'${text}`;
+  return `"${text.replace(/"/g, '""')}"`;
+};
+
+export const toInvoiceCsv = (invoices: SiteInvoice[]) => {
+  const header = [...CSV_COLUMNS, 'amount', 'currency'].join(',');
+  const rows = invoices.map(invoice =>
+    [...CSV_COLUMNS.map(column => invoice[column]), invoice.amount.amount, invoice.amount.currency]
+      .map(csvField)
+      .join(',')
+  );
+  return [header, ...rows].join('\r\n') + '\r\n';
+};
@@ -0,0 +1,99 @@
+import type { AccessRole } from '@/lib/auth/session';
+import type { TokenBucketOptions } from '@/lib/rate-limit';
+import type { StrikeCacheOptions } from './cache';
+import { isTipInvoiceRequest } from './products';
+
+// Declarative allowlist for the Strike proxy.
+// Anything not matched here is rejected before an upstream call is made;
+// `role` says who may call a matched endpoint and `rateClass` which
+// per-client rate limit it counts against. `cache` enables the shared
+// response cache; only use it on public GET endpoints. `acceptsBody` vets the
+// JSON request body, for endpoints where visitors may only send some payloads.
+
+export type StrikeMethod = 'GET' | 'POST' | 'PATCH' | 'DELETE';
+
+// Cheap reads vs calls that create or change state at Strike
+export type StrikeRateClass = 'read' | 'write';
+
+export const STRIKE_RATE_LIMITS: Record<StrikeRateClass, TokenBucketOptions> = {
+  // Bursts of 60, then one per second
+  read: { capacity: 60, refillPerSecond: 1 },
+  // Bursts of 10, then one every 30 seconds
+  write: { capacity: 10, refillPerSecond: 1 / 30 },
+};
+
+export interface StrikeRoutePolicy {
+  method: StrikeMethod;
+  // Path relative to the Strike API base; `{name}` matches a single segment
+  pattern: string;
+  role: AccessRole;
+  rateClass: StrikeRateClass;
+  cache?: StrikeCacheOptions;
+  acceptsBody?: (body: unknown) => boolean;
+  description: string;
+}
+
+export const STRIKE_ROUTE_POLICIES: StrikeRoutePolicy[] = [
+  // Public: what the site's own widgets need
+  {
+    method: 'GET',
+    pattern: 'rates/ticker',
+    role: 'public',
+    rateClass: 'read',
+    cache: { ttlSeconds: 15, staleWhileRevalidateSeconds: 45, staleIfErrorSeconds: 600 },
+    description: 'Current exchange rates',
+  },
+  {
+    method: 'POST',
+    pattern: 'invoices',
+    role: 'public',
+    rateClass: 'write',
+    // Consultation invoices are created by `/api/checkout` at catalog prices
+    acceptsBody: isTipInvoiceRequest,
+    description: 'Create a tip invoice',
+  },
+  { method: 'GET', pattern: 'invoices/{invoiceId}', role: 'public', rateClass: 'read', description: 'Invoice status' },
+  { method: 'POST', pattern: 'invoices/{invoiceId}/quote', role: 'public', rateClass: 'write', description: 'Lightning quote for an invoice' },
+  { method: 'GET', pattern: 'accounts/handle/{handle}/profile', role: 'public', rateClass: 'read', description: 'Public account profile' },
+
+  // Operator only: account data and anything that changes existing state
+  { method: 'GET', pattern: 'balances', role: 'operator', rateClass: 'read', description: 'Account balances' },
+  { method: 'GET', pattern: 'invoices', role: 'operator', rateClass: 'read', description: 'Invoice listing' },
+  { method: 'PATCH', pattern: 'invoices/{invoiceId}/cancel', role: 'operator', rateClass: 'write', description: 'Cancel an unpaid invoice' },
+  { method: 'POST', pattern: 'receive-requests', role: 'operator', rateClass: 'write', description: 'Create a receive request' },
+  { method: 'GET', pattern: 'receive-requests/{receiveRequestId}/receives', role: 'operator', rateClass: 'read', description: 'Receives for a receive request' },
+  { method: 'GET', pattern: 'subscriptions', role: 'operator', rateClass: 'read', description: 'Webhook subscriptions' },
+  { method: 'POST', pattern: 'subscriptions', role: 'operator', rateClass: 'write', description: 'Create a webhook subscription' },
+  { method: 'DELETE', pattern: 'subscriptions/{subscriptionId}', role: 'operator', rateClass: 'write', description: 'Delete a webhook subscription' },
+];
+
+// Invoice IDs are UUIDs; other params are Strike handles and currency codes
+const SEGMENT_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+const matchPattern = (pattern: string, segments: string[]): Record<string, string> | null => {
+  const parts = pattern.split('/');
+  if (parts.length !== segments.length) return null;
+
+  const params: Record<string, string> = {};
+  for (let i = 0; i < parts.length; i++) {
+    const part = parts[i];
+    const segment = segments[i];
+
+    if (part.startsWith('{') && part.endsWith('}')) {
+      if (!SEGMENT_PATTERN.test(segment)) return null;
+      params[part.slice(1, -1)] = segment;
+    } else if (part !== segment) {
+      return null;
+    }
+  }
+  return params;
+};
+
+export const findStrikePolicy = (method: string, segments: string[]) => {
+  for (const policy of STRIKE_ROUTE_POLICIES) {
+    if (policy.method !== method) continue;
+    const params = matchPattern(policy.pattern, segments);
+    if (params) return { policy, params };
+  }
+  return null;
+};
@@ -0,0 +1,81 @@
+import { SATS_PER_BTC } from '@/lib/price/units';
+import { CONSULTATION_PACKAGES } from '@/lib/services';
+
+// Invoice descriptions for what the site sells.
+// Strike has no product field, so the description doubles as one: it labels
+// site invoices on the dashboard and limits what visitors may create. Which
+// invoices are the site's is recorded separately (see `./invoices.ts`).
+
+const SITE_PREFIX = 'Tahoe Bitcoin';
+
+export const TIP_PRODUCT = 'Tip';
+
+export const consultationDescription = (name: string, duration: string) =>
+  `${SITE_PREFIX}: ${name} (${duration})`;
+
+export const tipDescription = (note?: string) =>
+  note ? `${SITE_PREFIX} tip: ${note}` : `${SITE_PREFIX} tip`;
+
+export const OTHER_PRODUCT = 'Other';
+
+const CONSULTATION_PATTERN = new RegExp(`^${SITE_PREFIX}: (.+) \\([^)]+\\)$`);
+
+const isTipDescription = (description: string) =>
+  description === tipDescription() || description.startsWith(`${SITE_PREFIX} tip: `);
+
+// Product name for a description matching the current catalog, or null
+export const getInvoiceProduct = (description?: string) => {
+  if (!description) return null;
+  if (isTipDescription(description)) return TIP_PRODUCT;
+
+  const consultation = CONSULTATION_PACKAGES.find(candidate =>
+    description === consultationDescription(candidate.name, candidate.duration)
+  );
+  return consultation ? consultation.name : null;
+};
+
+// Dashboard label: consultations by the name in their description, so renamed
+// or retired packages keep their label
+export const labelInvoiceProduct = (description?: string) => {
+  if (!description) return OTHER_PRODUCT;
+  if (isTipDescription(description)) return TIP_PRODUCT;
+  return description.match(CONSULTATION_PATTERN)?.[1] ?? OTHER_PRODUCT;
+};
+
+// Tip jar presets per unit; custom tips are capped at the last value times ten
+export const TIP_PRESETS = {
+  sats: [1000, 5000, 21000],
+  USD: [1, 5, 20]
+};
+
+export type TipUnit = keyof typeof TIP_PRESETS;
+
+export const getMaxTip = (unit: TipUnit) => TIP_PRESETS[unit][TIP_PRESETS[unit].length - 1] * 10;
+
+// Whole sats, or cents, from the smallest unit up to the cap
+export const isValidTipAmount = (unit: TipUnit, value: number) =>
+  unit === 'sats'
+    ? Number.isInteger(value) && value >= 1 && value <= getMaxTip(unit)
+    : value >= 0.01 && value <= getMaxTip(unit);
+
+// Strike amounts are decimal strings: BTC to the sat, USD to the cent
+const TIP_AMOUNT_PATTERNS: Record<string, RegExp> = {
+  BTC: /^\d+(\.\d{1,8})?$/,
+  USD: /^\d+(\.\d{1,2})?$/,
+};
+
+// Visitors may only price tips themselves, within the tip jar's limits;
+// consultations go through `/api/checkout`
+export const isTipInvoiceRequest = (body: unknown) => {
+  const { description, amount } = (body ?? {}) as { description?: unknown; amount?: { currency?: unknown; amount?: unknown } };
+  if (typeof description !== 'string' || getInvoiceProduct(description) !== TIP_PRODUCT) return false;
+
+  const currency = amount?.currency;
+  const value = amount?.amount;
+  if (typeof currency !== 'string' || typeof value !== 'string' || !TIP_AMOUNT_PATTERNS[currency]?.test(value)) {
+    return false;
+  }
+  return currency === 'BTC'
+    ? isValidTipAmount('sats', Math.round(Number(value) * SATS_PER_BTC))
+    : isValidTipAmount('USD', Number(value));
+};
@@ -0,0 +1,309 @@
+import { createHash } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { getClientIp } from '@/lib/rate-limit';
+import { getStrikeApiBase, getStrikeApiKey, getStrikeTimeoutMs } from './config';
+import {
+  IDEMPOTENCY_HEADER,
+  abandonIdempotentRequest,
+  beginIdempotentRequest,
+  completeIdempotentRequest,
+  fingerprintRequest,
+  isValidIdempotencyKey,
+  type StoredResponse,
+} from './idempotency';
+import { cacheControlHeader, getWithCache, type StrikeCacheOptions } from './cache';
+import { STRIKE_ERRORS, buildErrorBody, normalizeStrikeError, type StrikeErrorCode } from './errors';
+import type { StrikeMethod } from './policy';
+
+// Shared forwarding core behind every method of the Strike proxy route.
+
+// Request headers the browser may pass on to Strike
+const FORWARDED_REQUEST_HEADERS = ['accept', 'accept-language'];
+
+// Upstream headers that are safe (and useful) to hand back to the browser
+const FORWARDED_RESPONSE_HEADERS = [
+  'content-type',
+  'retry-after',
+  'ratelimit-limit',
+  'ratelimit-remaining',
+  'ratelimit-reset',
+  'x-ratelimit-limit',
+  'x-ratelimit-remaining',
+  'x-ratelimit-reset',
+];
+
+// Retry policy for transient upstream failures
+const MAX_ATTEMPTS = 3;
+const BASE_BACKOFF_MS = 250;
+const MAX_BACKOFF_MS = 2000;
+const TRANSIENT_STATUSES = [429, 502, 503, 504];
+
+// Client errors that say nothing final about the request itself (auth setup,
+// timeouts, rate limits), so they are not replayed for its idempotency key
+const NON_FINAL_CLIENT_STATUSES = [401, 403, 408, 425, 429];
+
+const isFinalStatus = (status: number) => status < 500 && !NON_FINAL_CLIENT_STATUSES.includes(status);
+
+class UpstreamTimeoutError extends Error {}
+
+const buildUpstreamUrl = (segments: string[], search: string) => {
+  const path = segments.map(encodeURIComponent).join('/');
+  return `${getStrikeApiBase()}/${path}${search}`;
+};
+
+// Strike dedupes on the key too, so a retry after a lost response can't create
+// a second invoice. Derived from the client-scoped key so two clients that pick
+// the same key never collide upstream.
+const upstreamIdempotencyKey = (scope: string) => createHash('sha256').update(scope).digest('hex');
+
+const buildUpstreamHeaders = (
+  request: NextRequest,
+  apiKey: string,
+  hasBody: boolean,
+  idempotencyScope: string | null
+) => {
+  const headers = new Headers({ 'Authorization': `Bearer ${apiKey}` });
+
+  for (const name of FORWARDED_REQUEST_HEADERS) {
+    const value = request.headers.get(name);
+    if (value) headers.set(name, value);
+  }
+
+  if (hasBody) {
+    headers.set('Content-Type', request.headers.get('content-type') || 'application/json');
+  }
+
+  if (idempotencyScope) {
+    headers.set('Idempotency-Key', upstreamIdempotencyKey(idempotencyScope));
+  }
+
+  return headers;
+};
+
+// Reads the body as text so empty and non-JSON bodies pass through untouched
+const readBody = async (request: NextRequest, method: StrikeMethod) => {
+  if (method === 'GET') return undefined;
+  const body = await request.text();
+  return body.length > 0 ? body : undefined;
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Capped exponential backoff; an upstream Retry-After wins when it is within the cap
+const backoffDelay = (attempt: number, retryAfter: string | null) => {
+  const retryAfterMs = Number(retryAfter) * 1000;
+  if (retryAfterMs > 0) return Math.min(retryAfterMs, MAX_BACKOFF_MS);
+  return Math.min(BASE_BACKOFF_MS * 2 ** attempt, MAX_BACKOFF_MS);
+};
+
+// One upstream attempt, read to completion within the timeout
+const fetchSnapshot = async (url: string, init: RequestInit): Promise<StoredResponse> => {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), getStrikeTimeoutMs());
+
+  try {
+    const upstream = await fetch(url, { ...init, signal: controller.signal, cache: 'no-store' });
+
+    const headers: [string, string][] = [];
+    for (const name of FORWARDED_RESPONSE_HEADERS) {
+      const value = upstream.headers.get(name);
+      if (value) headers.push([name, value]);
+    }
+
+    // 204/205/304 must not carry a body
+    const body = [204, 205, 304].includes(upstream.status) ? null : await upstream.arrayBuffer();
+    return {
+      status: upstream.status,
+      headers,
+      body: body && body.byteLength > 0 ? body : null,
+    };
+  } catch (error) {
+    if (controller.signal.aborted) throw new UpstreamTimeoutError('Strike API request timed out');
+    throw error;
+  } finally {
+    clearTimeout(timeout);
+  }
+};
+
+// Retries network errors, timeouts and transient statuses when the call is safe to repeat
+const fetchWithRetry = async (url: string, init: RequestInit, retryable: boolean) => {
+  const attempts = retryable ? MAX_ATTEMPTS : 1;
+
+  for (let attempt = 0; ; attempt++) {
+    const isLastAttempt = attempt === attempts - 1;
+    try {
+      const snapshot = await fetchSnapshot(url, init);
+      if (isLastAttempt || !TRANSIENT_STATUSES.includes(snapshot.status)) return snapshot;
+
+      const retryAfter = snapshot.headers.find(([name]) => name === 'retry-after')?.[1] ?? null;
+      await sleep(backoffDelay(attempt, retryAfter));
+    } catch (error) {
+      if (isLastAttempt) throw error;
+      await sleep(backoffDelay(attempt, null));
+    }
+  }
+};
+
+// Error response in the proxy's normalized error model
+export const strikeErrorResponse = (
+  code: StrikeErrorCode,
+  { headers, traceId }: { headers?: HeadersInit; traceId?: string } = {}
+) =>
+  NextResponse.json(buildErrorBody(code, traceId), {
+    status: STRIKE_ERRORS[code].status,
+    headers,
+  });
+
+const parseJson = (body: ArrayBuffer | null): unknown => {
+  if (!body) return null;
+  try {
+    return JSON.parse(Buffer.from(body).toString('utf8'));
+  } catch {
+    return null;
+  }
+};
+
+// Upstream errors are logged in full here and reach the browser only as a stable code
+const toErrorResponse = (snapshot: StoredResponse, replayed: boolean) => {
+  const upstreamBody = parseJson(snapshot.body);
+  const { code, traceId } = normalizeStrikeError(snapshot.status, upstreamBody);
+
+  if (!replayed) {
+    console.error('Strike API Error:', snapshot.status, upstreamBody ?? '(no JSON body)');
+  }
+
+  const headers = new Headers(snapshot.headers.filter(([name]) => name !== 'content-type'));
+  if (replayed) headers.set('Idempotent-Replayed', 'true');
+  return strikeErrorResponse(code, { headers, traceId });
+};
+
+const toClientResponse = (snapshot: StoredResponse, replayed = false) => {
+  if (snapshot.status >= 400) return toErrorResponse(snapshot, replayed);
+
+  const headers = new Headers(snapshot.headers);
+  if (replayed) headers.set('Idempotent-Replayed', 'true');
+  return new NextResponse(snapshot.body, { status: snapshot.status, headers });
+};
+
+// GETs for cacheable endpoints share one upstream fetch and carry ETag/Cache-Control
+const forwardCachedGet = async (
+  request: NextRequest,
+  url: string,
+  key: string,
+  init: RequestInit,
+  options: StrikeCacheOptions
+) => {
+  const result = await getWithCache(key, options, () => fetchWithRetry(url, init, true));
+
+  if (!result.cached || result.snapshot !== result.cached.snapshot) {
+    return toClientResponse(result.snapshot);
+  }
+
+  const headers = new Headers(result.snapshot.headers);
+  headers.set('ETag', result.cached.etag);
+  headers.set('Cache-Control', cacheControlHeader(result.cached, options));
+  headers.set('X-Cache', result.status);
+
+  if (request.headers.get('if-none-match') === result.cached.etag) {
+    return new NextResponse(null, { status: 304, headers });
+  }
+  return new NextResponse(result.snapshot.body, { status: result.snapshot.status, headers });
+};
+
+export interface ForwardOptions {
+  cache?: StrikeCacheOptions;
+  // Sent upstream in place of the request's own body
+  body?: string;
+  // Sent upstream in place of the request's own query string; '' for calls
+  // the server builds itself
+  search?: string;
+}
+
+export const forwardToStrike = async (
+  request: NextRequest,
+  method: StrikeMethod,
+  segments: string[],
+  options: ForwardOptions = {}
+) => {
+  const apiKey = getStrikeApiKey();
+
+  if (!apiKey) {
+    console.error('Strike API Error: STRIKE_API_KEY is not configured');
+    return strikeErrorResponse('AUTH_MISCONFIGURED');
+  }
+
+  const search = options.search ?? new URL(request.url).search;
+  let url: string;
+  try {
+    url = buildUpstreamUrl(segments, search);
+  } catch (error) {
+    // An unknown STRIKE_ENVIRONMENT: a setup problem, answered like a missing key
+    console.error('Strike API Error:', error);
+    return strikeErrorResponse('AUTH_MISCONFIGURED');
+  }
+
+  const body = options.body ?? await readBody(request, method);
+
+  // Write calls may carry an Idempotency-Key; GET and DELETE are idempotent already
+  const idempotencyKey = method === 'POST' || method === 'PATCH'
+    ? request.headers.get(IDEMPOTENCY_HEADER)
+    : null;
+  let idempotencyScope: string | null = null;
+
+  if (idempotencyKey !== null) {
+    if (!isValidIdempotencyKey(idempotencyKey)) {
+      return strikeErrorResponse('INVALID_REQUEST');
+    }
+
+    idempotencyScope = `${getClientIp(request)}:${idempotencyKey}`;
+    const lookup = beginIdempotentRequest(idempotencyScope, fingerprintRequest(method, url, body));
+
+    switch (lookup.kind) {
+      case 'replay':
+        return toClientResponse(lookup.response, true);
+      case 'in-flight':
+        return strikeErrorResponse('IDEMPOTENCY_CONFLICT');
+      case 'mismatch':
+        return strikeErrorResponse('IDEMPOTENCY_KEY_REUSED');
+    }
+  }
+
+  const init: RequestInit = {
+    method,
+    headers: buildUpstreamHeaders(request, apiKey, body !== undefined, idempotencyScope),
+    body,
+  };
+
+  try {
+    if (method === 'GET' && options.cache) {
+      return await forwardCachedGet(request, url, `${segments.join('/')}${search}`, init, options.cache);
+    }
+
+    const snapshot = await fetchWithRetry(
+      url,
+      init,
+      method === 'GET' || method === 'DELETE' || idempotencyScope !== null
+    );
+
+    if (idempotencyScope) {
+      // Server errors and transient client errors are not final: let the client try the same key again
+      if (!isFinalStatus(snapshot.status)) {
+        abandonIdempotentRequest(idempotencyScope);
+      } else {
+        completeIdempotentRequest(idempotencyScope, snapshot);
+      }
+    }
+
+    return toClientResponse(snapshot);
+
+  } catch (error) {
+    if (idempotencyScope) abandonIdempotentRequest(idempotencyScope);
+
+    if (error instanceof UpstreamTimeoutError) {
+      return strikeErrorResponse('UPSTREAM_TIMEOUT');
+    }
+
+    console.error('Strike API Error:', error);
+    return strikeErrorResponse('UPSTREAM_UNAVAILABLE');
+  }
+};
@@ -0,0 +1,21 @@
+import { getStrikeApiBase, getStrikeApiKey, getStrikeTimeoutMs } from './config';
+import { createStrikeClient } from './client';
+
+// Strike client for route handlers and server components, authenticated with
+// the server's API key. Not for use in the browser.
+export const getStrikeServerClient = () => {
+  const apiKey = getStrikeApiKey();
+  if (!apiKey) {
+    throw new Error('Strike API key not configured');
+  }
+
+  return createStrikeClient({
+    baseUrl: getStrikeApiBase(),
+    headers: { 'Authorization': `Bearer ${apiKey}` },
+    fetch: (input, init) => fetch(input, {
+      ...init,
+      cache: 'no-store',
+      signal: init?.signal ?? AbortSignal.timeout(getStrikeTimeoutMs()),
+    }),
+  });
+};
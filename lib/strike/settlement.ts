@@ -0,0 +1,89 @@
+import { appendRecord, readRecords } from '@/lib/storage/jsonl';
+import { getStrikeServerClient } from './server';
+import type { Amount, Invoice, Quote } from './types';
+
+// Settlement amounts for invoices paid through the site.
+// Strike's invoice resource only carries the requested amount, so every quote
+// issued through the proxy is recorded; the last one before payment is the
+// quote the client paid, and its BTC amount and rate are the settlement.
+
+const QUOTES_FILE = 'strike-quotes.jsonl';
+
+export interface RecordedQuote {
+  invoiceId: string;
+  quoteId: string;
+  recordedAt: string;
+  expiration: string;
+  // BTC paid by the client
+  sourceAmount: Amount;
+  targetAmount: Amount;
+  // USD per BTC when the quote was issued
+  btcUsdRate: string | null;
+}
+
+export interface Settlement {
+  sats: number | null;
+  usd: number | null;
+  btcUsdRate: number | null;
+}
+
+const toSats = (btc: string) => Math.round(Number(btc) * 100_000_000);
+
+// BTC-denominated quotes carry no USD rate, so fall back to Strike's ticker
+const lookupBtcUsdRate = async (quote: Quote) => {
+  const { conversionRate } = quote;
+  if (conversionRate.sourceCurrency === 'BTC' && conversionRate.targetCurrency === 'USD') {
+    return conversionRate.amount;
+  }
+
+  const result = await getStrikeServerClient().getTicker();
+  if (!result.ok) return null;
+  const rate = result.data.find(r => r.sourceCurrency === 'BTC' && r.targetCurrency === 'USD');
+  return rate?.amount ?? null;
+};
+
+export const recordQuote = async (invoiceId: string, quote: Quote) => {
+  try {
+    await appendRecord(QUOTES_FILE, {
+      invoiceId,
+      quoteId: quote.quoteId,
+      recordedAt: new Date().toISOString(),
+      expiration: quote.expiration,
+      sourceAmount: quote.sourceAmount,
+      targetAmount: quote.targetAmount,
+      btcUsdRate: await lookupBtcUsdRate(quote),
+    } satisfies RecordedQuote);
+  } catch (error) {
+    console.error('Strike Quote Record Error:', error);
+  }
+};
+
+export const getRecordedQuotes = () => readRecords<RecordedQuote>(QUOTES_FILE);
+
+// Latest quote for an invoice issued no later than `paidAt` (when known)
+export const findSettlementQuote = (quotes: RecordedQuote[], invoiceId: string, paidAt?: string | null) => {
+  let match: RecordedQuote | undefined;
+  for (const quote of quotes) {
+    if (quote.invoiceId !== invoiceId) continue;
+    if (paidAt && quote.recordedAt > paidAt) continue;
+    match = quote;
+  }
+  return match;
+};
+
+export const settleInvoice = (invoice: Invoice, quote?: RecordedQuote): Settlement => {
+  const btcUsdRate = quote?.btcUsdRate ? Number(quote.btcUsdRate) : null;
+  const { amount, currency } = invoice.amount;
+
+  const btc = currency === 'BTC' ? amount : quote?.sourceAmount.amount;
+  const sats = btc ? toSats(btc) : null;
+
+  let usd: number | null = null;
+  if (currency === 'USD') {
+    usd = Number(amount);
+  } else if (btc && btcUsdRate) {
+    usd = Math.round(Number(btc) * btcUsdRate * 100) / 100;
+  }
+
+  return { sats, usd, btcUsdRate };
+};
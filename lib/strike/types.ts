@@ -0,0 +1,112 @@
+// Shapes of the Strike API resources the site uses.
+// Amounts are decimal strings, exactly as Strike sends them.
+
+export type Currency = 'BTC' | 'USD' | 'EUR' | 'GBP' | 'USDT' | (string & {});
+
+export interface Amount {
+  amount: string;
+  currency: Currency;
+}
+
+export type InvoiceState = 'UNPAID' | 'PENDING' | 'PAID' | 'CANCELLED';
+
+export interface Invoice {
+  invoiceId: string;
+  amount: Amount;
+  state: InvoiceState;
+  created: string;
+  correlationId?: string;
+  description?: string;
+  issuerId?: string;
+  receiverId?: string;
+  payerId?: string;
+}
+
+export interface CreateInvoiceRequest {
+  correlationId?: string;
+  description?: string;
+  amount: Amount;
+}
+
+export interface InvoiceList {
+  items: Invoice[];
+  count: number;
+}
+
+export interface ConversionRate {
+  amount: Amount;
+}
+
+export interface Quote {
+  quoteId: string;
+  description?: string;
+  lnInvoice: string;
+  onchainAddress?: string;
+  expiration: string;
+  expirationInSec: number;
+  targetAmount: Amount;
+  sourceAmount: Amount;
+  conversionRate: {
+    amount: string;
+    sourceCurrency: Currency;
+    targetCurrency: Currency;
+  };
+}
+
+export interface TickerRate {
+  amount: string;
+  sourceCurrency: Currency;
+  targetCurrency: Currency;
+}
+
+export interface CreateReceiveRequest {
+  bolt11: {
+    amount?: Amount;
+    description?: string;
+    descriptionHash?: string;
+    expiryInSeconds?: number;
+  };
+  targetCurrency?: Currency;
+}
+
+export interface ReceiveRequest {
+  receiveRequestId: string;
+  created: string;
+  targetCurrency?: Currency;
+  bolt11: {
+    invoice: string;
+    requestedAmount?: Amount;
+    btcAmount?: Amount;
+    description?: string;
+    descriptionHash?: string;
+    paymentHash: string;
+    expires: string;
+  };
+}
+
+export interface Receive {
+  receiveId: string;
+  receiveRequestId: string;
+  type: string;
+  state: 'PENDING' | 'COMPLETED' | (string & {});
+  amountReceived: Amount;
+  created: string;
+  completed?: string;
+}
+
+export interface ReceiveList {
+  items: Receive[];
+  count: number;
+}
+
+export interface AccountProfile {
+  handle: string;
+  avatarUrl?: string;
+  description?: string;
+  canReceive: boolean;
+  currencies: {
+    currency: Currency;
+    isDefaultCurrency: boolean;
+    isAvailable: boolean;
+  }[];
+}
@@ -0,0 +1,87 @@
+import type {
+  AccountProfile,
+  Amount,
+  Invoice,
+  InvoiceList,
+  Quote,
+  Receive,
+  ReceiveList,
+  ReceiveRequest,
+  TickerRate,
+} from './types';
+
+// Runtime checks for Strike responses. They verify the fields the site
+// relies on and let unknown extra fields through.
+
+type Guard<T> = (value: unknown) => value is T;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const isArrayOf = <T>(guard: Guard<T>) => (value: unknown): value is T[] =>
+  Array.isArray(value) && value.every(guard);
+
+export const isAmount: Guard<Amount> = (value): value is Amount =>
+  isRecord(value) && isString(value.amount) && isString(value.currency);
+
+export const isInvoice: Guard<Invoice> = (value): value is Invoice =>
+  isRecord(value) &&
+  isString(value.invoiceId) &&
+  isAmount(value.amount) &&
+  isString(value.state) &&
+  isString(value.created);
+
+export const isInvoiceList: Guard<InvoiceList> = (value): value is InvoiceList =>
+  isRecord(value) && isArrayOf(isInvoice)(value.items) && typeof value.count === 'number';
+
+const isConversionRate: Guard<Quote['conversionRate']> = (value): value is Quote['conversionRate'] =>
+  isRecord(value) &&
+  isString(value.amount) &&
+  isString(value.sourceCurrency) &&
+  isString(value.targetCurrency);
+
+export const isQuote: Guard<Quote> = (value): value is Quote =>
+  isRecord(value) &&
+  isString(value.quoteId) &&
+  isString(value.lnInvoice) &&
+  isString(value.expiration) &&
+  isAmount(value.targetAmount) &&
+  isAmount(value.sourceAmount) &&
+  isConversionRate(value.conversionRate);
+
+export const isTickerRate: Guard<TickerRate> = (value): value is TickerRate =>
+  isRecord(value) &&
+  isString(value.amount) &&
+  isString(value.sourceCurrency) &&
+  isString(value.targetCurrency);
+
+export const isTicker = isArrayOf(isTickerRate);
+
+export const isReceiveRequest: Guard<ReceiveRequest> = (value): value is ReceiveRequest =>
+  isRecord(value) &&
+  isString(value.receiveRequestId) &&
+  isString(value.created) &&
+  isRecord(value.bolt11) &&
+  isString(value.bolt11.invoice) &&
+  isString(value.bolt11.paymentHash) &&
+  isString(value.bolt11.expires);
+
+export const isReceive: Guard<Receive> = (value): value is Receive =>
+  isRecord(value) &&
+  isString(value.receiveId) &&
+  isString(value.receiveRequestId) &&
+  isString(value.state) &&
+  isAmount(value.amountReceived);
+
+export const isReceiveList: Guard<ReceiveList> = (value): value is ReceiveList =>
+  isRecord(value) && isArrayOf(isReceive)(value.items) && typeof value.count === 'number';
+
+export const isAccountProfile: Guard<AccountProfile> = (value): value is AccountProfile =>
+  isRecord(value) &&
+  isString(value.handle) &&
+  typeof value.canReceive === 'boolean' &&
+  Array.isArray(value.currencies);
+
+export type { Guard };
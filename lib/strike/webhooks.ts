@@ -0,0 +1,149 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { appendRecord, readRecords } from '@/lib/storage/jsonl';
+import { getStrikeServerClient } from './server';
+
+// Inbound Strike webhook events: signature checks, replay protection and
+// a local record of every accepted event.
+
+export const WEBHOOK_SIGNATURE_HEADER = 'x-webhook-signature';
+const EVENTS_FILE = 'strike-webhook-events.jsonl';
+
+export interface StrikeWebhookEvent {
+  id: string;
+  eventType: string;
+  webhookVersion: string;
+  data: {
+    entityId: string;
+    changes?: string[];
+  };
+  created: string;
+  deliverySuccess?: boolean;
+}
+
+export interface RecordedWebhookEvent {
+  id: string;
+  eventType: string;
+  entityId: string;
+  changes: string[];
+  created: string;
+  receivedAt: string;
+  // Invoice state fetched from Strike when the event concerns an invoice
+  invoiceState?: string;
+}
+
+// Strike signs the raw body with HMAC-SHA256 and sends the hex digest
+export const verifyWebhookSignature = (rawBody: string, signature: string | null, secret: string) => {
+  if (!signature) return false;
+
+  const expected = createHmac('sha256', secret).update(rawBody).digest('hex');
+  const received = Buffer.from(signature.trim().toLowerCase());
+  return received.length === expected.length && timingSafeEqual(received, Buffer.from(expected));
+};
+
+export const isWebhookEvent = (value: unknown): value is StrikeWebhookEvent => {
+  const event = value as StrikeWebhookEvent;
+  return Boolean(
+    event &&
+    typeof event.id === 'string' &&
+    typeof event.eventType === 'string' &&
+    typeof event.created === 'string' &&
+    event.data && typeof event.data.entityId === 'string'
+  );
+};
+
+// IDs of recorded events, loaded once as a shared promise so concurrent first
+// deliveries all use the same set
+let seenEventIds: Promise<Set<string>> | null = null;
+
+const loadSeenEventIds = () => {
+  if (!seenEventIds) {
+    const loading = readRecords<RecordedWebhookEvent>(EVENTS_FILE).then(events =>
+      new Set(events.map((event) => event.id))
+    );
+    // A failed read is retried next time instead of being cached
+    loading.catch(() => {
+      if (seenEventIds === loading) seenEventIds = null;
+    });
+    seenEventIds = loading;
+  }
+  return seenEventIds;
+};
+
+// Events being recorded right now, by ID
+const recording = new Map<string, Promise<RecordedWebhookEvent>>();
+
+const fetchInvoiceState = async (invoiceId: string) => {
+  try {
+    const result = await getStrikeServerClient().getInvoice(invoiceId);
+    if (result.ok) return result.data.state;
+
+    console.error('Strike invoice lookup failed:', result.error);
+    return undefined;
+  } catch (error) {
+    console.error('Strike invoice lookup failed:', error);
+    return undefined;
+  }
+};
+
+const writeWebhookEvent = async (event: StrikeWebhookEvent) => {
+  const record: RecordedWebhookEvent = {
+    id: event.id,
+    eventType: event.eventType,
+    entityId: event.data.entityId,
+    changes: event.data.changes ?? [],
+    created: event.created,
+    receivedAt: new Date().toISOString(),
+  };
+
+  if (event.eventType.startsWith('invoice.')) {
+    record.invoiceState = await fetchInvoiceState(event.data.entityId);
+  }
+
+  await appendRecord(EVENTS_FILE, record);
+  return record;
+};
+
+// Records a new event, or returns null when it was already recorded. An event
+// only counts as seen once it is written: a concurrent delivery of the same
+// event waits for that write and fails with it, so Strike redelivers it.
+export const recordWebhookEvent = async (event: StrikeWebhookEvent): Promise<RecordedWebhookEvent | null> => {
+  const seen = await loadSeenEventIds();
+  // No await from this check until `recording.set`, so checking and reserving is one step
+  if (seen.has(event.id)) return null;
+
+  const inFlight = recording.get(event.id);
+  if (inFlight) {
+    await inFlight;
+    return null;
+  }
+
+  const write = writeWebhookEvent(event);
+  recording.set(event.id, write);
+  try {
+    const record = await write;
+    seen.add(event.id);
+    return record;
+  } finally {
+    recording.delete(event.id);
+  }
+};
+
+export const getWebhookEvents = () => readRecords<RecordedWebhookEvent>(EVENTS_FILE);
+
+// Latest known state for an invoice, as reported through webhooks
+export const getInvoiceStateFromWebhooks = async (invoiceId: string) => {
+  const events = await getWebhookEvents();
+  for (let i = events.length - 1; i >= 0; i--) {
+    if (events[i].entityId === invoiceId && events[i].invoiceState) {
+      return { state: events[i].invoiceState as string, receivedAt: events[i].receivedAt };
+    }
+  }
+  return null;
+};
+
+// When an invoice was paid: the first webhook that reported it as PAID
+export const getInvoicePaidAtFromWebhooks = async (invoiceId: string) => {
+  const events = await getWebhookEvents();
+  const paid = events.find(event => event.entityId === invoiceId && event.invoiceState === 'PAID');
+  return paid?.created ?? null;
+};
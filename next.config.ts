@@ -1,7 +1,17 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // Price data reaches the browser only through the site's own feeds
+  // (`/api/price`, `/api/price/stream`, `/api/history`), so pages may not
+  // call third-party APIs directly
+  async headers() {
+    return [
+      {
+        source: "/:path*",
+        headers: [{ key: "Content-Security-Policy", value: "connect-src 'self'" }],
+      },
+    ];
+  },
 };
 
 export default nextConfig;
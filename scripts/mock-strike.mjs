@@ -0,0 +1,398 @@
+#!/usr/bin/env node
+// Local mock of the Strike API endpoints this site uses.
+//
+//   npm run mock:strike
+//   STRIKE_ENVIRONMENT=mock STRIKE_API_KEY=mock npm run dev
+//
+// State lives in memory. Invoices move UNPAID -> PAID through the control
+// endpoints below, or automatically after MOCK_STRIKE_AUTO_PAY_SECONDS:
+//
+//   POST /_mock/invoices/:id/pay            mark an invoice PAID
+//   POST /_mock/invoices/:id/state          body { "state": "PENDING" | "PAID" | "CANCELLED" | "UNPAID" }
+//   POST /_mock/receive-requests/:id/pay    complete a receive request
+//   POST /_mock/config                      body { "btcUsd"?: number, "autoPaySeconds"?: number, "failNext"?: number }
+//   POST /_mock/reset                       clear all state
+//   GET  /_mock/state                       dump invoices and receive requests
+//
+// When MOCK_STRIKE_WEBHOOK_URL and STRIKE_WEBHOOK_SECRET are set, state changes
+// are delivered as signed `invoice.updated` / `receive-request.receive-completed` webhooks.
+
+import { createServer } from 'node:http';
+import { createHmac, randomBytes, randomUUID } from 'node:crypto';
+
+const PORT = Number(process.env.MOCK_STRIKE_PORT || 4010);
+const WEBHOOK_URL = process.env.MOCK_STRIKE_WEBHOOK_URL;
+const WEBHOOK_SECRET = process.env.STRIKE_WEBHOOK_SECRET;
+const QUOTE_TTL_SECONDS = 60;
+
+const config = {
+  btcUsd: Number(process.env.MOCK_STRIKE_BTC_USD || 100000),
+  autoPaySeconds: Number(process.env.MOCK_STRIKE_AUTO_PAY_SECONDS || 0),
+  // Number of upcoming API requests to fail with 503, for exercising retries
+  failNext: 0,
+};
+
+let invoices = new Map();
+let receiveRequests = new Map();
+// receiveRequestId -> receives, kept apart because Strike serves them separately
+let receives = new Map();
+// Auto-pay timers, cleared on reset so they never fire for dropped state
+const timers = new Set();
+
+const schedule = (callback, delayMs) => {
+  const timer = setTimeout(() => {
+    timers.delete(timer);
+    callback();
+  }, delayMs);
+  timers.add(timer);
+};
+
+const rates = () => {
+  const usdPerBtc = config.btcUsd;
+  const pairs = { USD: usdPerBtc, EUR: usdPerBtc * 0.92, GBP: usdPerBtc * 0.79 };
+  const ticker = [];
+  for (const [currency, price] of Object.entries(pairs)) {
+    ticker.push({ amount: price.toFixed(2), sourceCurrency: 'BTC', targetCurrency: currency });
+    ticker.push({ amount: (1 / price).toFixed(8), sourceCurrency: currency, targetCurrency: 'BTC' });
+  }
+  return ticker;
+};
+
+const toBtc = ({ amount, currency }) => {
+  if (currency === 'BTC') return Number(amount);
+  const rate = rates().find((r) => r.sourceCurrency === 'BTC' && r.targetCurrency === currency);
+  return rate ? Number(amount) / Number(rate.amount) : Number(amount) / config.btcUsd;
+};
+
+const fakeBolt11 = (btc) => `lnbc${Math.round(btc * 1e8)}n1p${randomBytes(120).toString('hex').replace(/[^a-z0-9]/g, '')}`;
+
+const sendWebhook = async (eventType, entityId, changes) => {
+  if (!WEBHOOK_URL || !WEBHOOK_SECRET) return;
+
+  const body = JSON.stringify({
+    id: randomUUID(),
+    eventType,
+    webhookVersion: 'v1',
+    data: { entityId, changes },
+    created: new Date().toISOString(),
+    deliverySuccess: false,
+  });
+  const signature = createHmac('sha256', WEBHOOK_SECRET).update(body).digest('hex').toUpperCase();
+
+  try {
+    const response = await fetch(WEBHOOK_URL, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-Webhook-Signature': signature },
+      body,
+    });
+    console.log(`webhook ${eventType} ${entityId} -> ${response.status}`);
+  } catch (error) {
+    console.error(`webhook ${eventType} ${entityId} failed:`, error.message);
+  }
+};
+
+const setInvoiceState = (invoice, state) => {
+  if (invoice.state === state) return;
+  invoice.state = state;
+  sendWebhook('invoice.updated', invoice.invoiceId, ['state']);
+};
+
+const completeReceiveRequest = (receiveRequest) => {
+  const completed = receives.get(receiveRequest.receiveRequestId);
+  if (!completed || completed.length > 0) return;
+  const now = new Date().toISOString();
+  completed.push({
+    receiveId: randomUUID(),
+    receiveRequestId: receiveRequest.receiveRequestId,
+    type: 'LIGHTNING',
+    state: 'COMPLETED',
+    amountReceived: receiveRequest.bolt11.btcAmount,
+    created: now,
+    completed: now,
+  });
+  sendWebhook('receive-request.receive-completed', receiveRequest.receiveRequestId, ['receives']);
+};
+
+const readJson = async (req) => {
+  let raw = '';
+  for await (const chunk of req) raw += chunk;
+  if (!raw) return {};
+  return JSON.parse(raw);
+};
+
+const send = (res, status, body) => {
+  res.writeHead(status, body === undefined ? {} : { 'Content-Type': 'application/json' });
+  res.end(body === undefined ? undefined : JSON.stringify(body));
+};
+
+// Strike names the state that blocked the call, e.g. INVALID_STATE_FOR_INVOICE_CANCELLED
+const invalidState = (res, invoice, message) =>
+  send(res, 422, { status: 422, data: { code: `INVALID_STATE_FOR_INVOICE_${invoice.state}`, message } });
+
+const notFound = (res) => send(res, 404, { status: 404, data: { code: 'NOT_FOUND', message: 'Not found' } });
+
+const invalid = (res, message, field) =>
+  send(res, 422, {
+    status: 422,
+    data: {
+      code: 'INVALID_DATA',
+      message,
+      validationErrors: field ? { [field]: [{ code: 'INVALID_DATA', message, values: {} }] } : {},
+    },
+  });
+
+// Very small subset of Strike's OData filter: `state eq 'PAID'`
+const applyFilter = (items, filter) => {
+  const match = filter && /^state eq '(\w+)'$/.exec(filter);
+  return match ? items.filter((item) => item.state === match[1]) : items;
+};
+
+const API_ROUTES = [
+  'GET rates/ticker',
+  'POST invoices',
+  'GET invoices',
+  'GET invoices/:id',
+  'POST invoices/:id/quote',
+  'PATCH invoices/:id/cancel',
+  'POST receive-requests',
+  'GET receive-requests/:id/receives',
+  'GET accounts/handle/:id/profile',
+];
+
+// Resolves a request to one of API_ROUTES, capturing the `:id` segment
+const matchRoute = (method, segments) => {
+  for (const route of API_ROUTES) {
+    const [routeMethod, pattern] = route.split(' ');
+    const parts = pattern.split('/');
+    if (routeMethod !== method || parts.length !== segments.length) continue;
+
+    let id;
+    const matches = parts.every((part, i) => {
+      if (part === ':id') {
+        id = segments[i];
+        return true;
+      }
+      return part === segments[i];
+    });
+    if (matches) return { route, id };
+  }
+  return { route: null, id: undefined };
+};
+
+const api = async (req, res, segments, url) => {
+  if (!req.headers.authorization?.startsWith('Bearer ')) {
+    return send(res, 401, { status: 401, data: { code: 'UNAUTHORIZED', message: 'Missing API key' } });
+  }
+
+  if (config.failNext > 0) {
+    config.failNext--;
+    return send(res, 503, { status: 503, data: { code: 'SERVICE_UNAVAILABLE', message: 'Mock outage' } });
+  }
+
+  const { route, id } = matchRoute(req.method, segments);
+
+  switch (route) {
+    case 'GET rates/ticker':
+      return send(res, 200, rates());
+
+    case 'POST invoices': {
+      const body = await readJson(req);
+      if (!body.amount?.amount || !body.amount?.currency || !(Number(body.amount.amount) > 0)) {
+        return invalid(res, 'Invalid amount', 'amount.amount');
+      }
+      if (body.correlationId && [...invoices.values()].some((i) => i.correlationId === body.correlationId)) {
+        return send(res, 422, { status: 422, data: { code: 'DUPLICATE_INVOICE', message: 'Invoice with this correlation id already exists' } });
+      }
+      const invoice = {
+        invoiceId: randomUUID(),
+        amount: body.amount,
+        state: 'UNPAID',
+        created: new Date().toISOString(),
+        correlationId: body.correlationId,
+        description: body.description,
+        issuerId: 'mock-issuer',
+        receiverId: 'mock-receiver',
+      };
+      invoices.set(invoice.invoiceId, invoice);
+      return send(res, 201, invoice);
+    }
+
+    case 'GET invoices': {
+      const all = applyFilter([...invoices.values()], url.searchParams.get('$filter'))
+        .sort((a, b) => b.created.localeCompare(a.created));
+      const skip = Number(url.searchParams.get('$skip') || 0);
+      const top = Number(url.searchParams.get('$top') || 50);
+      return send(res, 200, { items: all.slice(skip, skip + top), count: all.length });
+    }
+
+    case 'GET invoices/:id': {
+      const invoice = invoices.get(id);
+      return invoice ? send(res, 200, invoice) : notFound(res);
+    }
+
+    case 'POST invoices/:id/quote': {
+      const invoice = invoices.get(id);
+      if (!invoice) return notFound(res);
+      if (invoice.state !== 'UNPAID') {
+        return invalidState(res, invoice, 'Invoice is not payable');
+      }
+      const btc = toBtc(invoice.amount);
+      const quote = {
+        quoteId: randomUUID(),
+        description: invoice.description,
+        lnInvoice: fakeBolt11(btc),
+        onchainAddress: `bc1q${randomBytes(19).toString('hex')}`,
+        expiration: new Date(Date.now() + QUOTE_TTL_SECONDS * 1000).toISOString(),
+        expirationInSec: QUOTE_TTL_SECONDS,
+        targetAmount: invoice.amount,
+        sourceAmount: { amount: btc.toFixed(8), currency: 'BTC' },
+        conversionRate: {
+          amount: (Number(invoice.amount.amount) / btc).toFixed(2),
+          sourceCurrency: 'BTC',
+          targetCurrency: invoice.amount.currency,
+        },
+      };
+      if (config.autoPaySeconds > 0) {
+        schedule(() => invoice.state === 'UNPAID' && setInvoiceState(invoice, 'PAID'), config.autoPaySeconds * 1000);
+      }
+      return send(res, 201, quote);
+    }
+
+    case 'PATCH invoices/:id/cancel': {
+      const invoice = invoices.get(id);
+      if (!invoice) return notFound(res);
+      if (invoice.state !== 'UNPAID') {
+        return invalidState(res, invoice, 'Only unpaid invoices can be cancelled');
+      }
+      setInvoiceState(invoice, 'CANCELLED');
+      return send(res, 200, invoice);
+    }
+
+    case 'POST receive-requests': {
+      const body = await readJson(req);
+      const amount = body.bolt11?.amount;
+      if (!amount?.amount || !(Number(amount.amount) > 0)) return invalid(res, 'Invalid amount', 'amount.amount');
+      const btc = toBtc(amount);
+      const expiry = body.bolt11.expiryInSeconds || 3600;
+      const receiveRequest = {
+        receiveRequestId: randomUUID(),
+        created: new Date().toISOString(),
+        targetCurrency: body.targetCurrency || 'BTC',
+        bolt11: {
+          invoice: fakeBolt11(btc),
+          requestedAmount: amount,
+          btcAmount: { amount: btc.toFixed(8), currency: 'BTC' },
+          description: body.bolt11.description,
+          descriptionHash: body.bolt11.descriptionHash,
+          paymentHash: randomBytes(32).toString('hex'),
+          expires: new Date(Date.now() + expiry * 1000).toISOString(),
+        },
+      };
+      receiveRequests.set(receiveRequest.receiveRequestId, receiveRequest);
+      receives.set(receiveRequest.receiveRequestId, []);
+      if (config.autoPaySeconds > 0) {
+        schedule(() => completeReceiveRequest(receiveRequest), config.autoPaySeconds * 1000);
+      }
+      return send(res, 201, receiveRequest);
+    }
+
+    case 'GET receive-requests/:id/receives': {
+      const items = receives.get(id);
+      if (!items) return notFound(res);
+      return send(res, 200, { items, count: items.length });
+    }
+
+    case 'GET accounts/handle/:id/profile':
+      return send(res, 200, {
+        handle: id,
+        avatarUrl: null,
+        description: 'Mock Strike account',
+        canReceive: true,
+        currencies: [
+          { currency: 'BTC', isDefaultCurrency: false, isAvailable: true },
+          { currency: 'USD', isDefaultCurrency: true, isAvailable: true },
+        ],
+      });
+
+    default:
+      return notFound(res);
+  }
+};
+
+const control = async (req, res, segments) => {
+  const route = `${req.method} ${segments.join('/')}`;
+
+  if (route === 'GET state') {
+    return send(res, 200, {
+      config,
+      invoices: [...invoices.values()],
+      receiveRequests: [...receiveRequests.values()],
+      receives: Object.fromEntries(receives),
+    });
+  }
+
+  if (route === 'POST reset') {
+    timers.forEach((timer) => clearTimeout(timer));
+    timers.clear();
+    invoices = new Map();
+    receiveRequests = new Map();
+    receives = new Map();
+    return send(res, 204);
+  }
+
+  if (route === 'POST config') {
+    const body = await readJson(req);
+    for (const key of ['btcUsd', 'autoPaySeconds', 'failNext']) {
+      if (typeof body[key] === 'number') config[key] = body[key];
+    }
+    return send(res, 200, config);
+  }
+
+  if (segments[0] === 'invoices' && req.method === 'POST') {
+    const invoice = invoices.get(segments[1]);
+    if (!invoice) return notFound(res);
+    if (segments[2] === 'pay') {
+      setInvoiceState(invoice, 'PAID');
+      return send(res, 200, invoice);
+    }
+    if (segments[2] === 'state') {
+      const { state } = await readJson(req);
+      if (!['UNPAID', 'PENDING', 'PAID', 'CANCELLED'].includes(state)) return invalid(res, 'Unknown state', 'state');
+      setInvoiceState(invoice, state);
+      return send(res, 200, invoice);
+    }
+  }
+
+  if (segments[0] === 'receive-requests' && segments[2] === 'pay' && req.method === 'POST') {
+    const receiveRequest = receiveRequests.get(segments[1]);
+    if (!receiveRequest) return notFound(res);
+    completeReceiveRequest(receiveRequest);
+    return send(res, 200, receiveRequest);
+  }
+
+  return notFound(res);
+};
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+  const segments = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+
+  try {
+    if (segments[0] === 'v1') {
+      await api(req, res, segments.slice(1), url);
+    } else if (segments[0] === '_mock') {
+      await control(req, res, segments.slice(1));
+    } else {
+      notFound(res);
+    }
+  } catch (error) {
+    console.error(error);
+    send(res, 400, { status: 400, data: { code: 'INVALID_PAYLOAD', message: 'Malformed request' } });
+  }
+
+  console.log(`${req.method} ${url.pathname}${url.search} -> ${res.statusCode}`);
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock Strike API listening on http://localhost:${PORT}/v1`);
+});